@@ -1,9 +1,12 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import * as XLSX from "xlsx";
 import mammoth from "mammoth";
 import Docxtemplater from "docxtemplater";
 import PizZip from "pizzip";
 import { saveAs } from "file-saver";
+import { renderAsync } from "docx-preview";
+import QRCode from "qrcode";
+import JsBarcode from "jsbarcode";
 import {
   Upload,
   Download,
@@ -31,7 +34,23 @@ import {
   ArrowUp,
   ArrowDown,
   RotateCcw,
-  RotateCw
+  RotateCw,
+  History,
+  GitCompare,
+  Star,
+  PackageOpen,
+  ShieldCheck,
+  Image as ImageIcon,
+  QrCode,
+  Barcode,
+  Presentation,
+  Globe,
+  Calculator,
+  Link2,
+  Sparkles,
+  ZoomIn,
+  ZoomOut,
+  Maximize
 } from "lucide-react";
 
 interface CertificateData {
@@ -43,13 +62,126 @@ interface UploadStatus {
   excel: boolean;
 }
 
+type TemplateType = "docx" | "pptx";
+type TemplatePart = "document" | "header" | "footer" | "slide" | "layout" | "notes";
+type PlaceholderKind = "simple" | "loop" | "condition" | "image" | "qr" | "barcode";
+
+interface PlaceholderInfo {
+  name: string;
+  kind: PlaceholderKind;
+  parts: TemplatePart[];
+  count: number;
+  references?: string[];
+  // Barcode tags keep their prefix as written, e.g. "BARCODE39:"
+  prefix?: string;
+}
+
+interface ImageAsset {
+  id: string;
+  name: string;
+  mimeType: string;
+  data: string;
+  width: number;
+  height: number;
+  uploadDate: string;
+}
+
+// The file itself is a TemplateFile, read only when needed
+interface TemplateVersion {
+  id: string;
+  number: number;
+  placeholders: string[];
+  placeholderDetails?: PlaceholderInfo[];
+  uploadDate: string;
+  note?: string;
+  type?: TemplateType; // missing means docx
+}
+
+// Top-level placeholders/type always mirror the active version
 interface SavedTemplate {
   id: string;
   name: string;
-  html: string;
-  binary: string; // base64
   placeholders: string[];
+  placeholderDetails?: PlaceholderInfo[];
   uploadDate: string;
+  type?: TemplateType; // missing means docx
+  versions?: TemplateVersion[];
+  activeVersionId?: string;
+  category?: string;
+  tags?: string[];
+  favorite?: boolean;
+  createdAt?: number;
+  lastUsedAt?: number;
+  columnMappings?: ColumnMappings;
+  qrUrlPattern?: string;
+  barcodeHeight?: number;
+  barcodeShowText?: boolean;
+  delimiters?: TemplateDelimiters; // missing means single brace
+  locale?: string; // missing means en-US
+  timeZone?: string; // missing means the browser's
+  localeColumn?: string;
+  timeZoneColumn?: string;
+  computedFields?: ComputedField[];
+  fileNamePattern?: string;
+}
+
+// Template binaries are kept apart from the library metadata, one per version, so
+// opening the app doesn't read every file
+interface TemplateFile {
+  templateId: string;
+  versionId: string;
+  binary: Blob;
+  html: string;
+}
+
+// A template read from storage and ready to render. template is undefined for an
+// upload that hasn't been saved yet
+interface LoadedTemplate {
+  template: SavedTemplate | undefined;
+  binary: ArrayBuffer;
+  html: string;
+  type: TemplateType;
+  delimiters: TemplateDelimiters;
+  placeholderDetails: PlaceholderInfo[];
+  placeholders: string[];
+}
+
+// fullName = FirstName + " " + LastName - evaluated per record before rendering
+interface ComputedField {
+  name: string;
+  expression: string;
+}
+
+// Where a placeholder's value comes from when no column has its name,
+// e.g. {name} ← "Full Name", {issuer} ← "Training Dept." or {name} ← fullName
+interface PlaceholderMapping {
+  source: "column" | "constant" | "computed";
+  value: string;
+}
+
+type ColumnMappings = { [placeholder: string]: PlaceholderMapping };
+
+type TemplateSort = "lastUsed" | "created" | "name";
+
+interface GeneratedCertificate {
+  blob: Blob;
+  fileName: string;
+}
+
+interface TemplateDetailsChanges {
+  name: string;
+  category: string;
+  tags: string[];
+  qrUrlPattern: string;
+  barcodeHeight: number;
+  barcodeShowText: boolean;
+  delimiters: TemplateDelimiters;
+  locale: string;
+  timeZone: string;
+  localeColumn: string;
+  timeZoneColumn: string;
+  computedFields: ComputedField[];
+  fileNamePattern: string;
 }
 
 interface FilterCondition {
@@ -69,42 +201,94 @@ interface CellPosition {
   col: number;
 }
 
+interface CellRange {
+  start: CellPosition;
+  end: CellPosition;
+}
+
+// An empty column searches every column
+interface FindOptions {
+  query: string;
+  replacement: string;
+  matchCase: boolean;
+  wholeCell: boolean;
+  regex: boolean;
+  column: string;
+}
+
+// Undo history holds what each edit changed rather than copies of the whole dataset
 interface EditHistory {
-  past: ExcelFileSnapshot[];
-  future: ExcelFileSnapshot[];
+  past: EditPatch[];
+  future: EditPatch[];
 }
 
-interface ExcelFileSnapshot {
-  data: CertificateData[];
+interface ColumnLayout {
   columns: string[];
+  columnTypes: ColumnTypes;
+  columnRules: ColumnRules;
+}
+
+interface CellChange {
+  row: number;
+  column: string;
+  before?: string | number;
+  after?: string | number;
 }
 
+// rows: `removed` rows at `start` were replaced by `added`. cells: single values changed.
+// columns: the layout changed, and with it a column may have been renamed, added (empty)
+// or removed - its values are kept so undo can put them back
+type EditPatch =
+  | { kind: "rows"; start: number; removed: CertificateData[]; added: CertificateData[] }
+  | { kind: "cells"; changes: CellChange[] }
+  | {
+    kind: "columns";
+    before: ColumnLayout;
+    after: ColumnLayout;
+    renamed?: { from: string; to: string };
+    added?: string;
+    removed?: { column: string; values: (string | number | undefined)[] };
+  };
+
 // Simple IndexedDB operations
 const DB_NAME = "CertGenDB";
-const DB_VERSION = 2;
+const DB_VERSION = 5;
 const STORE_NAME = "templates";
+const TEMPLATE_FILE_STORE = "templateFiles";
 const EXCEL_STORE = "excelData";
+const ASSET_STORE = "assets";
 
 // Counter functions using LocalStorage with CSV
 const COUNTERS_KEY = 'certificate_counters';
 
+const parseCountersCsv = (csv: string): DownloadCounter[] => {
+  const lines = csv.split('\n').slice(1);
+  return lines
+    .filter(line => line.trim())
+    .map(line => {
+      const [templateId, templateName, monthKey, count] = line.split(',');
+      return {
+        templateId,
+        templateName: templateName || '',
+        monthKey,
+        count: parseInt(count, 10) || 0
+      };
+    });
+};
+
+const countersToCsv = (counters: DownloadCounter[]): string => {
+  const header = 'templateId,templateName,monthKey,count\n';
+  return header + counters
+    .map(c => `${c.templateId},${c.templateName},${c.monthKey},${c.count}`)
+    .join('\n');
+};
+
 const loadCounters = (): DownloadCounter[] => {
   try {
     const csv = localStorage.getItem(COUNTERS_KEY);
     if (!csv) return [];
     
-    const lines = csv.split('\n').slice(1);
-    return lines
-      .filter(line => line.trim())
-      .map(line => {
-        const [templateId, templateName, monthKey, count] = line.split(',');
-        return {
-          templateId,
-          templateName: templateName || '',
-          monthKey,
-          count: parseInt(count, 10) || 0
-        };
-      });
+    return parseCountersCsv(csv);
   } catch (error) {
     console.error('Error loading counters:', error);
     return [];
@@ -113,12 +297,7 @@ const loadCounters = (): DownloadCounter[] => {
 
 const saveCounters = (counters: DownloadCounter[]): void => {
   try {
-    const header = 'templateId,templateName,monthKey,count\n';
-    const csv = header + counters
-      .map(c => `${c.templateId},${c.templateName},${c.monthKey},${c.count}`)
-      .join('\n');
-    
-    localStorage.setItem(COUNTERS_KEY, csv);
+    localStorage.setItem(COUNTERS_KEY, countersToCsv(counters));
     console.log('✅ Counters saved to LocalStorage');
   } catch (error) {
     console.error('Error saving counters:', error);
@@ -167,342 +346,5438 @@ const getNextCertificateNumber = (
     return `${monthKey}-${String(nextCount).padStart(2, '0')}`;
   };
 
-const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: "id" });
-      }
-      if (!db.objectStoreNames.contains(EXCEL_STORE)) {
-        db.createObjectStore(EXCEL_STORE, { keyPath: "id" });
-      }
-    };
-  });
+// Same number getNextCertificateNumber would hand out, without consuming it (for previews)
+const peekNextCertificateNumber = (templateId: string): string => {
+  const now = new Date();
+  const monthKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+  const existingCounter = loadCounters().find(
+    c => c.templateId === templateId && c.monthKey === monthKey
+  );
+  return `${monthKey}-${String((existingCounter?.count || 0) + 1).padStart(2, '0')}`;
 };
 
-const saveTemplate = async (template: SavedTemplate): Promise<void> => {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    try {
-      const transaction = db.transaction([STORE_NAME], "readwrite");
-      const store = transaction.objectStore(STORE_NAME);
+// Expression language for template tags and computed fields (evaluated without eval), e.g.
+// {#Grade >= 90}with Distinction{/Grade >= 90}, {#list(Modules)}{.}{/list(Modules)} or
+// FirstName + " " + LastName
+type ExprValue = string | number | boolean | Date | null | undefined | ExprValue[];
 
-      const estimatedSize =
-        template.binary.length + template.html.length + template.name.length;
-      console.log(
-        `📊 Estimated template size: ${(estimatedSize / 1024 / 1024).toFixed(2)} MB`,
-      );
+type Expr =
+  | { type: "literal"; value: ExprValue }
+  | { type: "identifier"; name: string }
+  | { type: "unary"; op: "!" | "-"; arg: Expr }
+  | { type: "binary"; op: string; left: Expr; right: Expr }
+  | { type: "call"; name: string; args: Expr[] };
 
-      if (estimatedSize > 5 * 1024 * 1024) {
-        reject(
-          new Error("Template is too large (>5MB). Try a simpler DOCX file."),
-        );
-        return;
-      }
+interface ExprToken {
+  type: "number" | "string" | "identifier" | "operator" | "punct";
+  value: string;
+}
 
-      const request = store.put(template);
+const EXPRESSION_OPERATORS = ["&&", "||", "==", "!=", ">=", "<=", ">", "<", "!", "=", "+", "-", "*", "/"];
+
+// Word turns quotes into smart quotes and users type the maths symbols
+const normalizeExpression = (source: string): string =>
+  source
+    .replace(/[\u201C\u201D\u201E]/g, '"')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/\u2265/g, ">=")
+    .replace(/\u2264/g, "<=")
+    .replace(/\u2260/g, "!=")
+    .trim();
+
+const tokenizeExpression = (source: string): ExprToken[] => {
+  const tokens: ExprToken[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(source[i + 1] || ""))) {
+      const match = source.slice(i).match(/^\d*\.?\d+/)!;
+      tokens.push({ type: "number", value: match[0] });
+      i += match[0].length;
+    } else if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) throw new Error(`Unterminated string in "${source}"`);
+      tokens.push({ type: "string", value: source.slice(i + 1, end) });
+      i = end + 1;
+    } else if (ch === "[") {
+      // [Column Name] for columns with spaces or symbols
+      const end = source.indexOf("]", i + 1);
+      if (end === -1) throw new Error(`Missing "]" in "${source}"`);
+      tokens.push({ type: "identifier", value: source.slice(i + 1, end).trim() });
+      i = end + 1;
+    } else if (/[A-Za-z_\u00C0-\uFFFF]/.test(ch)) {
+      const match = source.slice(i).match(/^[A-Za-z0-9_\u00C0-\uFFFF]+/)!;
+      tokens.push({ type: "identifier", value: match[0] });
+      i += match[0].length;
+    } else if (ch === "(" || ch === ")" || ch === ",") {
+      tokens.push({ type: "punct", value: ch });
+      i++;
+    } else {
+      const op = EXPRESSION_OPERATORS.find(o => source.startsWith(o, i));
+      if (!op) throw new Error(`Unexpected "${ch}" in "${source}"`);
+      tokens.push({ type: "operator", value: op === "=" ? "==" : op });
+      i += op.length;
+    }
+  }
+  return tokens;
+};
 
-      request.onsuccess = () => {
-        console.log("✅ IndexedDB write successful");
-        resolve();
-      };
+const compileExpression = (source: string): Expr => {
+  const tokens = tokenizeExpression(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isWord = (word: string) =>
+    peek()?.type === "identifier" && peek().value.toLowerCase() === word;
+  const isOp = (...ops: string[]) =>
+    peek()?.type === "operator" && ops.includes(peek().value);
+  const expect = (value: string) => {
+    if (peek()?.value !== value) throw new Error(`Expected "${value}" in "${source}"`);
+    pos++;
+  };
 
-      request.onerror = () => {
-        console.error("❌ IndexedDB write error:", request.error);
-        reject(request.error);
-      };
+  const parseOr = (): Expr => {
+    let left = parseAnd();
+    while (isOp("||") || isWord("or")) {
+      pos++;
+      left = { type: "binary", op: "||", left, right: parseAnd() };
+    }
+    return left;
+  };
 
-      transaction.oncomplete = () => {
-        console.log("✅ Transaction complete");
-      };
+  const parseAnd = (): Expr => {
+    let left = parseNot();
+    while (isOp("&&") || isWord("and")) {
+      pos++;
+      left = { type: "binary", op: "&&", left, right: parseNot() };
+    }
+    return left;
+  };
 
-      transaction.onerror = () => {
-        console.error("❌ Transaction error:", transaction.error);
-        reject(transaction.error);
-      };
-    } catch (error) {
-      console.error("❌ Exception in saveTemplate:", error);
-      reject(error);
+  const parseNot = (): Expr => {
+    if (isOp("!") || isWord("not")) {
+      pos++;
+      return { type: "unary", op: "!", arg: parseNot() };
     }
-  });
+    return parseComparison();
+  };
+
+  const parseComparison = (): Expr => {
+    const left = parseAdditive();
+    if (isOp("==", "!=", ">", ">=", "<", "<=")) {
+      const op = tokens[pos++].value;
+      return { type: "binary", op, left, right: parseAdditive() };
+    }
+    return left;
+  };
+
+  const parseAdditive = (): Expr => {
+    let left = parseMultiplicative();
+    while (isOp("+", "-")) {
+      const op = tokens[pos++].value;
+      left = { type: "binary", op, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): Expr => {
+    let left = parseNegation();
+    while (isOp("*", "/")) {
+      const op = tokens[pos++].value;
+      left = { type: "binary", op, left, right: parseNegation() };
+    }
+    return left;
+  };
+
+  const parseNegation = (): Expr => {
+    if (isOp("-")) {
+      pos++;
+      return { type: "unary", op: "-", arg: parseNegation() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = tokens[pos++];
+    if (!token) throw new Error(`Unexpected end of "${source}"`);
+    if (token.type === "number") return { type: "literal", value: parseFloat(token.value) };
+    if (token.type === "string") return { type: "literal", value: token.value };
+    if (token.type === "punct" && token.value === "(") {
+      const inner = parseOr();
+      expect(")");
+      return inner;
+    }
+    if (token.type === "identifier") {
+      const word = token.value.toLowerCase();
+      if (word === "true" || word === "false") return { type: "literal", value: word === "true" };
+      if (peek()?.value === "(") {
+        pos++;
+        const args: Expr[] = [];
+        while (peek() && peek().value !== ")") {
+          args.push(parseOr());
+          if (peek()?.value === ",") pos++;
+        }
+        expect(")");
+        if (!EXPRESSION_FUNCTIONS[word]) throw new Error(`Unknown function "${token.value}"`);
+        return { type: "call", name: word, args };
+      }
+      return { type: "identifier", name: token.value };
+    }
+    throw new Error(`Unexpected "${token.value}" in "${source}"`);
+  };
+
+  const expr = parseOr();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos].value}" in "${source}"`);
+  return expr;
 };
 
-const getAllTemplates = async (): Promise<SavedTemplate[]> => {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], "readonly");
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.getAll();
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
+const toNumber = (value: ExprValue): number | null => {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) return Number(value);
+  return null;
 };
 
-const deleteTemplate = async (id: string): Promise<void> => {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], "readwrite");
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
+// Section values coming from spreadsheets: "", "0", "no", "false" all hide the section
+const toBoolean = (value: ExprValue): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "string") {
+    return !["", "0", "false", "no", "n", "off"].includes(value.trim().toLowerCase());
+  }
+  return !!value;
 };
 
-const saveExcelData = async (
-  data: CertificateData[],
-  columns: string[],
-): Promise<void> => {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([EXCEL_STORE], "readwrite");
-    const store = transaction.objectStore(EXCEL_STORE);
-    const request = store.put({ id: "excel", data, columns });
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
+// Dates compare with dates, or with text that reads as a date in the given locale
+const compareValues = (left: ExprValue, right: ExprValue, locale: string): number => {
+  if (left instanceof Date || right instanceof Date) {
+    const a = parseDateValue(left, locale);
+    const b = parseDateValue(right, locale);
+    if (a && b) return a.getTime() - b.getTime();
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null) return a - b;
+  return toText(left, locale).localeCompare(toText(right, locale), undefined, { sensitivity: "base" });
 };
 
-const deleteExcelData = async (): Promise<void> => {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([EXCEL_STORE], "readwrite");
-    const store = transaction.objectStore(EXCEL_STORE);
-    const request = store.delete("excel");
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
+const formatLongDate = (date: Date, locale: string): string =>
+  date.toLocaleDateString(locale, { year: "numeric", month: "long", day: "numeric" });
+
+const toText = (value: ExprValue, locale: string): string => {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return formatLongDate(value, locale);
+  if (Array.isArray(value)) return value.map(v => toText(v, locale)).join(", ");
+  return String(value);
 };
 
-const getExcelData = async (): Promise<{
-  data: CertificateData[];
-  columns: string[];
-} | null> => {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([EXCEL_STORE], "readonly");
-    const store = transaction.objectStore(EXCEL_STORE);
-    const request = store.get("excel");
-    request.onsuccess = () => resolve(request.result || null);
-    request.onerror = () => reject(request.error);
-  });
+// Numbers add, anything else joins as text: FirstName + " " + LastName
+const addValues = (left: ExprValue, right: ExprValue, locale: string): ExprValue => {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null) return a + b;
+  return toText(left, locale) + toText(right, locale);
 };
 
-// Custom hook for click outside
-const useClickOutside = (ref: React.RefObject<HTMLElement>, handler: () => void) => {
-  React.useEffect(() => {
-    const listener = (event: MouseEvent | TouchEvent) => {
-      if (!ref.current || ref.current.contains(event.target as Node)) {
-        return;
+const calculate = (op: string, left: ExprValue, right: ExprValue): number | null => {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+  if (op === "-") return a - b;
+  if (op === "*") return a * b;
+  return b === 0 ? null : a / b;
+};
+
+// Month arithmetic stays at the end of short months: 31 January + 1 month = 28/29 February
+const shiftDate = (value: ExprValue, amount: ExprValue, unit: "day" | "month" | "year", locale: string): ExprValue => {
+  const date = parseDateValue(value, locale);
+  const n = toNumber(amount);
+  if (!date || n === null) return null;
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (unit === "day") {
+    result.setDate(result.getDate() + n);
+    return result;
+  }
+  const months = unit === "year" ? n * 12 : n;
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+};
+
+const EXPRESSION_FUNCTIONS: { [name: string]: (args: ExprValue[], format: FormatSettings) => ExprValue } = {
+  // list(Modules) splits "a; b; c" (or comma/newline separated) into a loop
+  list: ([value, separator]) => {
+    if (Array.isArray(value)) return value;
+    const text = String(value ?? "");
+    const parts = separator ? text.split(String(separator)) : text.split(/[;\n,]/);
+    return parts.map(p => p.trim()).filter(Boolean);
+  },
+  contains: ([value, search]) => {
+    const needle = String(search ?? "").toLowerCase();
+    if (Array.isArray(value)) return value.some(v => String(v).toLowerCase() === needle);
+    return String(value ?? "").toLowerCase().includes(needle);
+  },
+  empty: ([value]) => !toBoolean(value) || String(value ?? "").trim() === "",
+  // Today in the template's time zone
+  today: (_args, format) => parseDateValue(getBuiltInValues(new Date(), format).DATE_ISO, format.locale),
+  adddays: ([date, days], { locale }) => shiftDate(date, days, "day", locale),
+  addmonths: ([date, months], { locale }) => shiftDate(date, months, "month", locale),
+  addyears: ([date, years], { locale }) => shiftDate(date, years, "year", locale),
+  round: ([value, digits]) => {
+    const n = toNumber(value);
+    if (n === null) return null;
+    const factor = 10 ** (toNumber(digits ?? 0) || 0);
+    return Math.round(n * factor) / factor;
+  },
+};
+
+const evaluateExpression = (
+  expr: Expr,
+  lookup: (name: string) => ExprValue,
+  format: FormatSettings = DEFAULT_FORMAT,
+): ExprValue => {
+  const evaluate = (e: Expr) => evaluateExpression(e, lookup, format);
+  switch (expr.type) {
+    case "literal":
+      return expr.value;
+    case "identifier":
+      return lookup(expr.name);
+    case "unary": {
+      if (expr.op === "!") return !toBoolean(evaluate(expr.arg));
+      const n = toNumber(evaluate(expr.arg));
+      return n === null ? null : -n;
+    }
+    case "call":
+      return EXPRESSION_FUNCTIONS[expr.name](expr.args.map(evaluate), format);
+    case "binary": {
+      if (expr.op === "&&") {
+        return toBoolean(evaluate(expr.left)) && toBoolean(evaluate(expr.right));
       }
-      handler();
-    };
+      if (expr.op === "||") {
+        return toBoolean(evaluate(expr.left)) || toBoolean(evaluate(expr.right));
+      }
+      if (expr.op === "+") return addValues(evaluate(expr.left), evaluate(expr.right), format.locale);
+      if (["-", "*", "/"].includes(expr.op)) return calculate(expr.op, evaluate(expr.left), evaluate(expr.right));
+      const diff = compareValues(evaluate(expr.left), evaluate(expr.right), format.locale);
+      if (expr.op === "==") return diff === 0;
+      if (expr.op === "!=") return diff !== 0;
+      if (expr.op === ">") return diff > 0;
+      if (expr.op === ">=") return diff >= 0;
+      if (expr.op === "<") return diff < 0;
+      return diff <= 0;
+    }
+  }
+};
 
-    document.addEventListener('mousedown', listener);
-    document.addEventListener('touchstart', listener);
+const getExpressionReferences = (expr: Expr): string[] => {
+  switch (expr.type) {
+    case "identifier":
+      return [expr.name];
+    case "unary":
+      return getExpressionReferences(expr.arg);
+    case "binary":
+      return [...getExpressionReferences(expr.left), ...getExpressionReferences(expr.right)];
+    case "call":
+      return expr.args.flatMap(getExpressionReferences);
+    default:
+      return [];
+  }
+};
 
-    return () => {
-      document.removeEventListener('mousedown', listener);
-      document.removeEventListener('touchstart', listener);
-    };
-  }, [ref, handler]);
+// Plain tags like {First Name} or {CERT-DATE_ISO} are looked up as-is;
+// only tags with operators, quotes or calls are treated as expressions
+// ("-" and "/" are common in column names, so they need one of the others).
+// A tag naming a column or field is always plain, e.g. {Trainer's Name} or {Score (%)}
+const isExpressionTag = (tag: string, names: string[] = []): boolean =>
+  !names.some(name => name === tag || name.toLowerCase() === tag.toLowerCase()) &&
+  (/[<>=!&|()"'+*]/.test(tag) || /\s(and|or)\s|^not\s/i.test(tag));
+
+// The names a template's tags can read as plain values: the data's columns,
+// its computed fields and mapped placeholders
+const getPlainTagNames = (
+  columns: string[],
+  settings: Pick<SavedTemplate, "computedFields" | "columnMappings"> = {},
+): string[] => [
+  ...columns,
+  ...(settings.computedFields || []).map(f => f.name),
+  ...Object.keys(settings.columnMappings || {}),
+];
+
+// Same matching as the placeholder mapping: exact name first, then case-insensitive
+const lookupScopeValue = (scopeList: unknown[], name: string): ExprValue => {
+  for (let i = scopeList.length - 1; i >= 0; i--) {
+    const scope = scopeList[i];
+    if (scope && typeof scope === "object" && !Array.isArray(scope)) {
+      const keys = Object.keys(scope);
+      const key = keys.find(k => k === name) || keys.find(k => k.toLowerCase() === name.toLowerCase());
+      if (key) return (scope as { [key: string]: ExprValue })[key];
+    }
+  }
+  return undefined;
 };
 
-// Column Header Component
-const ColumnHeader: React.FC<{
-  column: string;
-  index: number;
-  onEdit: () => void;
-  onDelete: () => void;
-  onInsertLeft: () => void;
-  onInsertRight: () => void;
-  menuOpen: boolean;
-  onMenuToggle: (open: boolean) => void;
-}> = ({ column, index, onEdit, onDelete, onInsertLeft, onInsertRight, menuOpen, onMenuToggle }) => {
-  const menuRef = useRef<HTMLDivElement>(null);
+// Locale settings - a template's language and time zone, which a record can override
+// through the template's locale/time zone columns (e.g. a "Language" column with "fr-FR")
+interface FormatSettings {
+  locale: string;
+  timeZone?: string;
+}
 
-  useClickOutside(menuRef, () => onMenuToggle(false));
+type FormatTemplateSettings = Pick<SavedTemplate, "locale" | "timeZone" | "localeColumn" | "timeZoneColumn">;
 
-  return (
-    <th className="border border-gray-300 bg-gray-100 relative group">
-      <div className="flex items-center justify-between px-3 py-2">
-        <span className="font-medium text-sm">{column}</span>
-        <button
-          onClick={() => onMenuToggle(true)}
-          className="p-1 hover:bg-gray-200 rounded transition"
-          title="Column options"
-        >
-          <ChevronDown className="w-4 h-4" />
-        </button>
-      </div>
+const DEFAULT_LOCALE = "en-US";
+const DEFAULT_FORMAT: FormatSettings = { locale: DEFAULT_LOCALE };
+const COMMON_LOCALES = [
+  "en-US", "en-GB", "fr-FR", "fr-CA", "de-DE", "de-CH", "es-ES", "es-MX", "it-IT",
+  "pt-BR", "pt-PT", "nl-NL", "pl-PL", "tr-TR", "ar-SA", "ar-EG", "ar-MA", "ja-JP", "zh-CN",
+];
 
-      {menuOpen && (
-        <div ref={menuRef} className="absolute top-full left-0 mt-1 bg-white shadow-xl rounded-lg border py-1 z-50 min-w-[180px]">
-          <button
-            onClick={() => { onEdit(); onMenuToggle(false); }}
-            className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2 text-sm"
-          >
-            <Edit2 className="w-4 h-4" /> Edit Column
-          </button>
-          <button
-            onClick={() => { onInsertLeft(); onMenuToggle(false); }}
-            className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2 text-sm"
-          >
-            <Plus className="w-4 h-4" /> Insert Left
-          </button>
+const isValidLocale = (locale: string): boolean => {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+};
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat(DEFAULT_LOCALE, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Column values that aren't valid locales or time zones fall back to the template's own
+const getRecordFormat = (template: FormatTemplateSettings | undefined, record?: CertificateData): FormatSettings => {
+  const columnValue = (column?: string) => {
+    if (!column || !record) return "";
+    const key = Object.keys(record).find(k => k.toLowerCase() === column.toLowerCase());
+    return key ? String(record[key] ?? "").trim() : "";
+  };
+  const recordLocale = columnValue(template?.localeColumn);
+  const recordTimeZone = columnValue(template?.timeZoneColumn);
+  return {
+    locale: isValidLocale(recordLocale) ? recordLocale : template?.locale || DEFAULT_LOCALE,
+    timeZone: isValidTimeZone(recordTimeZone) && recordTimeZone ? recordTimeZone : template?.timeZone || undefined,
+  };
+};
+
+const toWesternDigits = (text: string): string =>
+  text.replace(/[\u0660-\u0669\u06F0-\u06F9]/g, digit => String(digit.charCodeAt(0) % 16));
+
+// Month names as they appear in a full date ("5 janvier", "5. Januar", "5 يناير"), longest first
+const getMonthNames = (locale: string): { name: string; month: number }[] => {
+  const names: { name: string; month: number }[] = [];
+  for (let month = 0; month < 12; month++) {
+    const date = new Date(Date.UTC(2000, month, 15));
+    (["long", "short"] as const).forEach(style => {
+      const part = new Intl.DateTimeFormat(locale, { day: "numeric", month: style, timeZone: "UTC" })
+        .formatToParts(date)
+        .find(p => p.type === "month");
+      const name = part?.value.toLocaleLowerCase(locale).replace(/\.$/, "");
+      if (name && !/^\d+$/.test(name)) names.push({ name, month });
+    });
+  }
+  return names.sort((a, b) => b.name.length - a.name.length);
+};
+
+// "5 janvier 2024" - a month name in the given language, a day and a four-digit year
+const parseLocalizedDate = (text: string, locale: string): Date | null => {
+  const normalized = toWesternDigits(text).toLocaleLowerCase(locale);
+  const month = getMonthNames(locale).find(m => normalized.includes(m.name));
+  const year = normalized.match(/\d{4}/);
+  if (!month || !year) return null;
+  const day = normalized.replace(year[0], "").match(/\d{1,2}/);
+  if (!day) return null;
+  return new Date(+year[0], month.month, +day[0]);
+};
+
+const NUMERIC_DATE_TEXT = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})\.?$/;
+
+// "25/12/2024" - day, month and year in the order the locale writes them (d/m/y for fr-FR,
+// m/d/y for en-US); a four-digit first field is always y/m/d. Two-digit years are 1950-2049
+const parseNumericDate = (text: string, locale: string): Date | null => {
+  const fields = toWesternDigits(text).match(NUMERIC_DATE_TEXT);
+  if (!fields) return null;
+  const order = fields[1].length === 4
+    ? ["year", "month", "day"]
+    : new Intl.DateTimeFormat(locale, { year: "numeric", month: "numeric", day: "numeric" })
+      .formatToParts(new Date(2024, 11, 25))
+      .map(part => part.type)
+      .filter(type => type === "day" || type === "month" || type === "year");
+  if (order.length !== 3) return null;
+  const value = (type: string) => +fields[order.indexOf(type) + 1];
+  const [day, month] = [value("day"), value("month")];
+  let year = value("year");
+  if (year < 100) year += year < 50 ? 2000 : 1900;
+  const date = new Date(year, month - 1, day);
+  // Rejects 31/02 and a month above 12 rather than rolling over
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+// Filter pipeline - {name | title}, {date | format:"dd MMMM yyyy"}, {score | number:1}.
+// Filters run left to right on the tag's value; arguments follow ":" and may be quoted
+interface FilterCall {
+  name: string;
+  args: string[];
+}
+
+interface TagPipeline {
+  source: string;
+  filters: FilterCall[];
+}
+
+const MONTH_TOKENS = /yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|'[^']*'/g;
+
+// Spreadsheet dates arrive as text in the template's language ("January 5, 2024",
+// "5 janvier 2024", "25/12/2024"); ISO dates are read as local days
+const parseDateValue = (value: ExprValue, locale: string): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const text = String(value).trim();
+  if (!text) return null;
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return new Date(+iso[1], +iso[2] - 1, +iso[3]);
+  // Numeric dates are never left to new Date(), which always reads the month first
+  if (NUMERIC_DATE_TEXT.test(toWesternDigits(text))) return parseNumericDate(text, locale);
+  const date = parseLocalizedDate(text, locale) || new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// dd MMMM yyyy → 05 January 2024; text in single quotes is copied as-is
+const formatDate = (date: Date, pattern: string, locale: string): string =>
+  pattern.replace(MONTH_TOKENS, token => {
+    switch (token) {
+      case "yyyy": return date.getFullYear().toString();
+      case "yy": return date.getFullYear().toString().slice(-2);
+      case "MMMM": return date.toLocaleDateString(locale, { month: "long" });
+      case "MMM": return date.toLocaleDateString(locale, { month: "short" });
+      case "MM": return (date.getMonth() + 1).toString().padStart(2, "0");
+      case "M": return (date.getMonth() + 1).toString();
+      case "dd": return date.getDate().toString().padStart(2, "0");
+      case "d": return date.getDate().toString();
+      case "EEEE": return date.toLocaleDateString(locale, { weekday: "long" });
+      case "EEE": return date.toLocaleDateString(locale, { weekday: "short" });
+      default: return token.slice(1, -1);
+    }
+  });
+
+const SMALL_NUMBER_WORDS = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+  "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen",
+];
+const TENS_WORDS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const SCALE_WORDS: [number, string][] = [[1e12, "trillion"], [1e9, "billion"], [1e6, "million"], [1e3, "thousand"]];
+
+const integerToWords = (n: number): string => {
+  if (n < 20) return SMALL_NUMBER_WORDS[n];
+  if (n < 100) return TENS_WORDS[Math.floor(n / 10)] + (n % 10 ? `-${SMALL_NUMBER_WORDS[n % 10]}` : "");
+  if (n < 1000) {
+    return `${SMALL_NUMBER_WORDS[Math.floor(n / 100)]} hundred` + (n % 100 ? ` and ${integerToWords(n % 100)}` : "");
+  }
+  const [scale, word] = SCALE_WORDS.find(([size]) => n >= size)!;
+  const rest = n % scale;
+  return `${integerToWords(Math.floor(n / scale))} ${word}` +
+    (rest ? (rest < 100 ? " and " : " ") + integerToWords(rest) : "");
+};
+
+// 7.5 → "seven point five"
+const numberToWords = (n: number): string => {
+  const [whole, fraction] = Math.abs(n).toString().split(".");
+  const words = integerToWords(parseInt(whole, 10)) +
+    (fraction ? ` point ${fraction.split("").map(d => SMALL_NUMBER_WORDS[+d]).join(" ")}` : "");
+  return n < 0 ? `minus ${words}` : words;
+};
+
+const isEmptyValue = (value: ExprValue): boolean =>
+  value === undefined || value === null || (Array.isArray(value) ? value.length === 0 : String(value).trim() === "");
+
+// Missing values pass through untouched (and render empty) except for default.
+// words and ordinal are English only
+type TemplateFilter = (value: ExprValue, args: string[], format: FormatSettings) => ExprValue;
+
+const TEMPLATE_FILTERS: { [name: string]: TemplateFilter } = {
+  upper: (value, _args, { locale }) => String(value).toLocaleUpperCase(locale),
+  lower: (value, _args, { locale }) => String(value).toLocaleLowerCase(locale),
+  title: (value, _args, { locale }) => String(value).toLocaleLowerCase(locale).replace(/(^|[\s-])(\S)/g, (_m, sep: string, ch: string) => sep + ch.toLocaleUpperCase(locale)),
+  initials: (value, _args, { locale }) =>
+    String(value).split(/[\s-]+/).filter(Boolean).map(word => `${word[0].toLocaleUpperCase(locale)}.`).join(""),
+  format: (value, [pattern], { locale }) => {
+    const date = parseDateValue(value, locale);
+    if (!date) return value;
+    return pattern ? formatDate(date, pattern, locale) : formatLongDate(date, locale);
+  },
+  number: (value, [decimals], { locale }) => {
+    const n = toNumber(value);
+    if (n === null) return value;
+    const digits = decimals === undefined ? undefined : Math.max(0, Math.min(20, parseInt(decimals, 10) || 0));
+    return n.toLocaleString(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits ?? 3 });
+  },
+  words: (value) => {
+    const n = toNumber(value);
+    return n === null || Math.abs(n) >= 1e15 ? value : numberToWords(n);
+  },
+  ordinal: (value) => {
+    const n = toNumber(value);
+    if (n === null || !Number.isInteger(n)) return value;
+    const lastTwo = Math.abs(n) % 100;
+    const suffix = lastTwo >= 11 && lastTwo <= 13 ? "th" : ["th", "st", "nd", "rd"][Math.abs(n) % 10] || "th";
+    return `${n}${suffix}`;
+  },
+  default: (value, [fallback = ""]) => isEmptyValue(value) ? fallback : value,
+};
+
+// Splits on "|" outside quotes and [brackets]; "||" stays the "or" operator
+const splitPipeline = (tag: string): string[] => {
+  const segments: string[] = [];
+  let quote = "";
+  let bracket = false;
+  let start = 0;
+  for (let i = 0; i < tag.length; i++) {
+    const ch = tag[i];
+    if (quote) {
+      if (ch === quote) quote = "";
+    } else if (bracket) {
+      if (ch === "]") bracket = false;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "[") {
+      bracket = true;
+    } else if (ch === "|") {
+      if (tag[i + 1] === "|") {
+        i++;
+      } else {
+        segments.push(tag.slice(start, i));
+        start = i + 1;
+      }
+    }
+  }
+  segments.push(tag.slice(start));
+  return segments.map(s => s.trim());
+};
+
+// format:"dd MMMM yyyy" → { name: "format", args: ["dd MMMM yyyy"] }
+const parseFilterCall = (segment: string): FilterCall => {
+  const match = segment.match(/^([A-Za-z_]\w*)\s*(?::([\s\S]*))?$/);
+  if (!match) throw new Error(`Invalid filter "${segment}"`);
+  const name = match[1].toLowerCase();
+  if (!TEMPLATE_FILTERS[name]) throw new Error(`Unknown filter "${match[1]}"`);
+
+  const args: string[] = [];
+  const rest = match[2];
+  let i = 0;
+  while (rest !== undefined && i <= rest.length) {
+    while (/\s/.test(rest[i] || "")) i++;
+    const ch = rest[i];
+    if (ch === '"' || ch === "'") {
+      const end = rest.indexOf(ch, i + 1);
+      if (end === -1) throw new Error(`Unterminated string in filter "${segment}"`);
+      args.push(rest.slice(i + 1, end));
+      i = end + 1;
+      while (/\s/.test(rest[i] || "")) i++;
+    } else {
+      const end = rest.indexOf(":", i);
+      args.push(rest.slice(i, end === -1 ? rest.length : end).trim());
+      i = end === -1 ? rest.length : end;
+    }
+    if (i < rest.length && rest[i] !== ":") throw new Error(`Expected ":" in filter "${segment}"`);
+    i++;
+  }
+  return { name, args };
+};
+
+// {NAME_UPPER} is the old spelling of {NAME | upper}
+const parseTagPipeline = (tag: string): TagPipeline => {
+  const [source, ...segments] = splitPipeline(tag);
+  const filters = segments.map(parseFilterCall);
+  if (/^\w[\w\s-]*_UPPER$/.test(source)) {
+    return { source: source.slice(0, -"_UPPER".length), filters: [{ name: "upper", args: [] }, ...filters] };
+  }
+  return { source, filters };
+};
+
+const applyFilters = (value: ExprValue, filters: FilterCall[], format: FormatSettings): ExprValue =>
+  filters.reduce<ExprValue>(
+    (current, filter) =>
+      isEmptyValue(current) && filter.name !== "default"
+        ? current
+        : TEMPLATE_FILTERS[filter.name](current, filter.args, format),
+    value,
+  );
+
+// The column or expression a tag reads, e.g. "name" for {name | title}
+const getTagSource = (tag: string): string => {
+  try {
+    return parseTagPipeline(normalizeExpression(tag)).source;
+  } catch {
+    return normalizeExpression(tag);
+  }
+};
+
+// docxtemplater parser: {.} is the current loop item, section values are coerced to booleans.
+// Filters format dates and numbers for the given locale; names are read as plain tags
+const createExpressionParser = (
+  format: FormatSettings = DEFAULT_FORMAT,
+  names: string[] = [],
+) => (tag: string) => {
+  const { source, filters } = parseTagPipeline(normalizeExpression(tag));
+  const expr = isExpressionTag(source, names) ? compileExpression(source) : null;
+  return {
+    get(scope: unknown, context: { scopeList: unknown[]; meta: { part: { module?: string } } }) {
+      if (source === "." && filters.length === 0) return scope;
+      const lookup = (name: string) => lookupScopeValue(context.scopeList, name);
+      const raw = source === "." ? scope as ExprValue : expr ? evaluateExpression(expr, lookup, format) : lookup(source);
+      const value = applyFilters(raw, filters, format);
+      if (value === undefined) return undefined;
+      if (context.meta.part.module === "loop" && !Array.isArray(value)) return toBoolean(value);
+      return value instanceof Date ? formatLongDate(value, format.locale) : value;
+    },
+  };
+};
+
+const expressionParser = createExpressionParser();
+
+const DOCXTEMPLATER_OPTIONS = {
+  paragraphLoop: true,
+  linebreaks: true,
+  parser: expressionParser,
+};
+
+// Image placeholders - {%signature} embeds the asset named by the record's
+// "signature" column, or the asset called "signature" when there is no such column.
+// {QR:field} embeds a QR code of the field's value (or the template's QR link pattern),
+// {BARCODE:field} a Code 128 and {BARCODE39:field} a Code 39 barcode
+const IMAGE_MODULE = "CertGenImage";
+const QR_TAG_PATTERN = /^QR:\s*/i;
+const QR_MODULE_PIXELS = 8;
+const QR_QUIET_ZONE = 4;
+const BARCODE_TAG_PATTERN = /^BARCODE(128|39)?:\s*/i;
+const DEFAULT_BARCODE_HEIGHT_MM = 15;
+const EMU_PER_MM = 36000;
+
+type BarcodeFormat = "CODE128" | "CODE39";
+
+type ImageTagSettings = Pick<SavedTemplate, "qrUrlPattern" | "barcodeHeight" | "barcodeShowText">;
+const IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/gif"];
+const EMU_PER_PIXEL = 9525;
+const EMU_PER_TWIP = 635;
+// Default cell margins (0.08") on both sides
+const CELL_PADDING_TWIPS = 216;
+// Used when the tag is not inside a table cell or text box: at most 6cm x 3cm
+const DEFAULT_IMAGE_BOX = { cx: 2160000, cy: 1080000 };
+
+interface ImageBox {
+  cx: number;
+  cy?: number;
+}
+
+const getAssetKey = (name: string): string =>
+  name.trim().toLowerCase().replace(/\.(png|jpe?g|gif)$/, "");
+
+const findAsset = (assets: ImageAsset[], name: unknown): ImageAsset | undefined => {
+  if (typeof name !== "string" && typeof name !== "number") return undefined;
+  const key = getAssetKey(String(name));
+  return key ? assets.find(a => getAssetKey(a.name) === key) : undefined;
+};
+
+// Scales to fit the box while keeping the aspect ratio
+const fitImageToBox = (asset: ImageAsset, box: ImageBox): { cx: number; cy: number } => {
+  const cx = asset.width * EMU_PER_PIXEL;
+  const cy = asset.height * EMU_PER_PIXEL;
+  const scale = Math.min(box.cx / cx, box.cy ? box.cy / cy : Infinity);
+  return { cx: Math.round(cx * scale), cy: Math.round(cy * scale) };
+};
+
+// {value} is the tag's own value, any other {Column} comes from the record; all URL-encoded
+const composeQrText = (
+  pattern: string | undefined,
+  value: string,
+  lookup: (name: string) => unknown,
+): string => {
+  if (!pattern?.trim()) return value;
+  return pattern.replace(/\{([^}]+)\}/g, (_match, name: string) => {
+    const key = name.trim();
+    const replacement = key.toLowerCase() === "value" ? value : String(lookup(key) ?? "");
+    return encodeURIComponent(replacement);
+  });
+};
+
+// Drawn on a canvas so no network or server is involved
+const createQrImage = (text: string, id: string): ImageAsset => {
+  const qr = QRCode.create(text, { errorCorrectionLevel: "M" });
+  const size = (qr.modules.size + QR_QUIET_ZONE * 2) * QR_MODULE_PIXELS;
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, size, size);
+  ctx.fillStyle = "#000000";
+  for (let row = 0; row < qr.modules.size; row++) {
+    for (let col = 0; col < qr.modules.size; col++) {
+      if (qr.modules.get(row, col)) {
+        ctx.fillRect(
+          (col + QR_QUIET_ZONE) * QR_MODULE_PIXELS,
+          (row + QR_QUIET_ZONE) * QR_MODULE_PIXELS,
+          QR_MODULE_PIXELS,
+          QR_MODULE_PIXELS,
+        );
+      }
+    }
+  }
+  return {
+    id,
+    name: "QR code",
+    mimeType: "image/png",
+    data: canvas.toDataURL("image/png").split(",")[1],
+    width: size,
+    height: size,
+    uploadDate: new Date().toISOString(),
+  };
+};
+
+// Returns undefined when the value can't be encoded (e.g. accented letters, or "_" in Code 39)
+const createBarcodeImage = (
+  text: string,
+  format: BarcodeFormat,
+  showText: boolean,
+  id: string,
+): ImageAsset | undefined => {
+  const canvas = document.createElement("canvas");
+  try {
+    JsBarcode(canvas, text, {
+      format,
+      width: 2,
+      height: 100,
+      displayValue: showText,
+      fontSize: 20,
+      margin: 10,
+    });
+  } catch (error) {
+    console.warn(`⚠️ Cannot encode "${text}" as ${format}:`, error);
+    return undefined;
+  }
+  return {
+    id,
+    name: `${format} barcode`,
+    mimeType: "image/png",
+    data: canvas.toDataURL("image/png").split(",")[1],
+    width: canvas.width,
+    height: canvas.height,
+    uploadDate: new Date().toISOString(),
+  };
+};
+
+// Barcodes keep the configured height and only shrink if the box is too narrow
+const getBarcodeBox = (box: ImageBox, settings: ImageTagSettings): ImageBox => ({
+  cx: box.cx,
+  cy: (settings.barcodeHeight || DEFAULT_BARCODE_HEIGHT_MM) * EMU_PER_MM,
+});
+
+const getImageHtml = (asset: ImageAsset, size: { cx: number; cy: number }): string =>
+  `<img src="data:${asset.mimeType};base64,${asset.data}" alt="${escapeXml(asset.name)}" style="width:${size.cx / EMU_PER_PIXEL}px;height:${size.cy / EMU_PER_PIXEL}px;display:inline-block;" />`;
+
+const getImageExtension = (mimeType: string): string =>
+  mimeType === "image/jpeg" ? "jpeg" : mimeType.replace("image/", "");
+
+const readImageAsset = (file: globalThis.File): Promise<ImageAsset> =>
+  new Promise((resolve, reject) => {
+    if (!IMAGE_MIME_TYPES.includes(file.type)) {
+      reject(new Error("Please upload a PNG, JPEG or GIF image"));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      const img = new Image();
+      img.onerror = () => reject(new Error(`Could not read image ${file.name}`));
+      img.onload = () => resolve({
+        // Several images read in one go share a timestamp, so the suffix keeps their ids apart
+        id: `asset_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
+        name: file.name.replace(/\.[^.]+$/, ""),
+        mimeType: file.type,
+        data: dataUrl.split(",")[1],
+        width: img.naturalWidth,
+        height: img.naturalHeight,
+        uploadDate: new Date().toISOString(),
+      });
+      img.src = dataUrl;
+    };
+    reader.readAsDataURL(file);
+  });
+
+type ImagePart = Docxtemplater.DXT.Part & {
+  imageType?: "asset" | "qr" | "barcode";
+  barcodeFormat?: BarcodeFormat;
+  barcodePrefix?: string;
+  box?: ImageBox;
+  subparsed?: ImagePart[];
+};
+
+// Records the table cell (tcW/trHeight) or text box (wp:extent) around each image tag
+const assignImageBoxes = (parsed: ImagePart[]) => {
+  const boxes: ImageBox[] = [];
+  let rowHeight: number | undefined;
+  let extent: ImageBox | undefined;
+  const xmlPattern = /<w:tr[ >]|<w:trHeight [^>]*>|<w:tc[ >]|<\/w:tc>|<w:tcW [^>]*>|<wp:extent [^>]*>|<w:txbxContent[ >]|<\/w:txbxContent>/g;
+  const attr = (xml: string, name: string) => {
+    const match = xml.match(new RegExp(`${name}="(\\d+)"`));
+    return match ? parseInt(match[1], 10) : undefined;
+  };
+
+  const walk = (parts: ImagePart[]) => {
+    parts.forEach(part => {
+      if (part.type === "placeholder") {
+        if (part.module === IMAGE_MODULE) part.box = boxes[boxes.length - 1];
+        if (part.subparsed) walk(part.subparsed);
+        return;
+      }
+      (part.value.match(xmlPattern) || []).forEach(xml => {
+        if (xml.startsWith("<w:trHeight")) {
+          const height = attr(xml, "w:val");
+          rowHeight = height ? height * EMU_PER_TWIP : undefined;
+        } else if (xml.startsWith("<w:tr")) {
+          rowHeight = undefined;
+        } else if (xml.startsWith("<w:tcW")) {
+          const width = attr(xml, "w:w");
+          if (width && /w:type="dxa"/.test(xml) && boxes.length > 0) {
+            boxes[boxes.length - 1] = {
+              cx: Math.max(width - CELL_PADDING_TWIPS, width / 2) * EMU_PER_TWIP,
+              cy: rowHeight,
+            };
+          }
+        } else if (xml.startsWith("<w:tc")) {
+          boxes.push(DEFAULT_IMAGE_BOX);
+        } else if (xml.startsWith("<wp:extent")) {
+          const cx = attr(xml, "cx");
+          extent = cx ? { cx, cy: attr(xml, "cy") } : undefined;
+        } else if (xml.startsWith("<w:txbxContent")) {
+          boxes.push(extent || DEFAULT_IMAGE_BOX);
+        } else {
+          boxes.pop();
+        }
+      });
+    });
+  };
+
+  walk(parsed);
+};
+
+const getDrawingXml = (rId: string, docPrId: number, asset: ImageAsset, size: { cx: number; cy: number }): string => {
+  const name = escapeXml(asset.name);
+  return (
+    `<w:drawing><wp:inline xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" distT="0" distB="0" distL="0" distR="0">` +
+    `<wp:extent cx="${size.cx}" cy="${size.cy}"/><wp:docPr id="${docPrId}" name="${name}"/>` +
+    `<wp:cNvGraphicFramePr><a:graphicFrameLocks xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" noChangeAspect="1"/></wp:cNvGraphicFramePr>` +
+    `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+    `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="${docPrId}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:embed="${rId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${size.cx}" cy="${size.cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing>`
+  );
+};
+
+// docxtemplater rewrites [Content_Types].xml when syncing, so this runs afterwards
+const addImageContentTypes = (zip: PizZip, mimeTypes: string[]) => {
+  let contentTypes = zip.file("[Content_Types].xml")?.asText() || "";
+  mimeTypes.forEach(mimeType => {
+    const extension = getImageExtension(mimeType);
+    if (!new RegExp(`Extension="${extension}"`, "i").test(contentTypes)) {
+      contentTypes = contentTypes.replace(
+        "</Types>",
+        `<Default Extension="${extension}" ContentType="${mimeType}"/></Types>`,
+      );
+    }
+  });
+  zip.file("[Content_Types].xml", contentTypes);
+};
+
+// Adds the image to word/media once and a relationship from the part being rendered
+const addImageRelationship = (zip: PizZip, filePath: string, asset: ImageAsset): string => {
+  const extension = getImageExtension(asset.mimeType);
+  const mediaName = `certgen_${asset.id}.${extension}`;
+  if (!zip.file(`word/media/${mediaName}`)) {
+    zip.file(`word/media/${mediaName}`, asset.data, { base64: true });
+  }
+
+  const relsPath = filePath.replace(/([^/]+)$/, "_rels/$1.rels");
+  const rels = zip.file(relsPath)?.asText() ||
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>`;
+  const rId = `rIdCertGen_${asset.id}`;
+  if (!rels.includes(`Id="${rId}"`)) {
+    zip.file(relsPath, rels.replace(
+      "</Relationships>",
+      `<Relationship Id="${rId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/${mediaName}"/></Relationships>`,
+    ));
+  }
+  return rId;
+};
+
+const createImageModule = (assets: ImageAsset[], settings: ImageTagSettings = {}) => {
+  let zip: PizZip | null = null;
+  let docPrId = 5000;
+  const usedMimeTypes = new Set<string>();
+  // Generated codes are cached per value so repeated tags share one media file
+  const generated = new Map<string, ImageAsset | undefined>();
+
+  const getGeneratedImage = (key: string, create: (id: string) => ImageAsset | undefined) => {
+    if (!generated.has(key)) generated.set(key, create(`gen${generated.size + 1}`));
+    return generated.get(key);
+  };
+
+  return {
+    name: IMAGE_MODULE,
+    optionsTransformer(options: Docxtemplater.DXT.Options, doc: Docxtemplater<PizZip>) {
+      zip = doc.getZip();
+      return options;
+    },
+    on(event: string) {
+      if (event === "synced-zip" && zip && usedMimeTypes.size > 0) {
+        addImageContentTypes(zip, Array.from(usedMimeTypes));
+      }
+    },
+    parse(placeholderContent: string) {
+      if (placeholderContent.startsWith("%")) {
+        return { type: "placeholder", value: placeholderContent.slice(1).trim(), module: IMAGE_MODULE, imageType: "asset" };
+      }
+      if (QR_TAG_PATTERN.test(placeholderContent)) {
+        const value = placeholderContent.replace(QR_TAG_PATTERN, "").trim();
+        return { type: "placeholder", value, module: IMAGE_MODULE, imageType: "qr" };
+      }
+      const barcode = placeholderContent.match(BARCODE_TAG_PATTERN);
+      if (barcode) {
+        const value = placeholderContent.replace(BARCODE_TAG_PATTERN, "").trim();
+        const barcodeFormat: BarcodeFormat = barcode[1] === "39" ? "CODE39" : "CODE128";
+        const barcodePrefix = barcode[0].trim();
+        return { type: "placeholder", value, module: IMAGE_MODULE, imageType: "barcode", barcodeFormat, barcodePrefix };
+      }
+      return null;
+    },
+    postparse(parsed: ImagePart[]) {
+      assignImageBoxes(parsed);
+      return parsed;
+    },
+    render(part: ImagePart, options: Docxtemplater.DXT.RenderOptions) {
+      if (part.module !== IMAGE_MODULE) return null;
+      if (options.fileType === "pptx") {
+        console.warn(`⚠️ Image, QR and barcode tags are not supported in PowerPoint templates: ${part.value}`);
+        return { value: "", errors: [] };
+      }
+      const value = options.scopeManager.getValue(part.value, { part });
+      const text = value === undefined || value === null ? "" : String(value).trim();
+      let asset: ImageAsset | undefined;
+      let box = part.box || DEFAULT_IMAGE_BOX;
+      if (part.imageType === "qr") {
+        if (text) {
+          const lookup = (name: string) => options.scopeManager.getValue(name, { part });
+          const qrText = composeQrText(settings.qrUrlPattern, text, lookup);
+          asset = getGeneratedImage(`qr:${qrText}`, id => createQrImage(qrText, id));
+        }
+      } else if (part.imageType === "barcode") {
+        const format = part.barcodeFormat || "CODE128";
+        if (text) {
+          asset = getGeneratedImage(`${format}:${text}`, id =>
+            createBarcodeImage(text, format, settings.barcodeShowText !== false, id));
+        }
+        box = getBarcodeBox(box, settings);
+      } else {
+        // A column that exists but is empty means "no image", not the fallback asset
+        asset = value === undefined ? findAsset(assets, part.value) : findAsset(assets, value);
+      }
+      if (!asset || !zip) return { value: "", errors: [] };
+      const rId = addImageRelationship(zip, options.filePath, asset);
+      usedMimeTypes.add(asset.mimeType);
+      const drawing = getDrawingXml(rId, docPrId++, asset, fitImageToBox(asset, box));
+      return { value: `</w:t>${drawing}<w:t xml:space="preserve">`, errors: [] };
+    },
+  };
+};
+
+// Template file types - Word (DOCX) and PowerPoint (PPTX) are both rendered by docxtemplater
+const TEMPLATE_MIME_TYPES: { [type in TemplateType]: string } = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+};
+const TEMPLATE_FILE_ACCEPT = ".docx,.pptx";
+
+const getTemplateType = (zip: PizZip): TemplateType | undefined => {
+  if (zip.file("word/document.xml")) return "docx";
+  if (zip.file("ppt/presentation.xml")) return "pptx";
+  return undefined;
+};
+
+// Placeholder delimiters - one setting per template, shared by detection,
+// the HTML preview and docxtemplater so all three see the same tags
+interface TemplateDelimiters {
+  start: string;
+  end: string;
+}
+
+type DelimiterStyle = "single" | "double" | "square" | "custom";
+
+const DELIMITER_PRESETS: { [style in Exclude<DelimiterStyle, "custom">]: TemplateDelimiters } = {
+  single: { start: "{", end: "}" },
+  double: { start: "{{", end: "}}" },
+  square: { start: "[", end: "]" },
+};
+
+const DEFAULT_DELIMITERS = DELIMITER_PRESETS.single;
+
+const DELIMITER_STYLE_LABELS: { [style in DelimiterStyle]: string } = {
+  single: "Single brace {name}",
+  double: "Double brace {{name}}",
+  square: "Square bracket [name]",
+  custom: "Custom",
+};
+
+const getTemplateDelimiters = (template?: Pick<SavedTemplate, "delimiters">): TemplateDelimiters =>
+  template?.delimiters || DEFAULT_DELIMITERS;
+
+const sameDelimiters = (a: TemplateDelimiters, b: TemplateDelimiters): boolean =>
+  a.start === b.start && a.end === b.end;
+
+const getDelimiterStyle = (delimiters: TemplateDelimiters): DelimiterStyle =>
+  (Object.keys(DELIMITER_PRESETS) as Exclude<DelimiterStyle, "custom">[])
+    .find(style => sameDelimiters(DELIMITER_PRESETS[style], delimiters)) || "custom";
+
+const formatTag = (name: string, delimiters: TemplateDelimiters): string =>
+  `${delimiters.start}${name}${delimiters.end}`;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Guesses the style of a newly uploaded template from its text; double braces are
+// checked first because every {{x}} also looks like a single-brace tag
+const guessDelimiters = (zip: PizZip): TemplateDelimiters => {
+  const text = zip
+    .file(/^(word\/(document|header\d*|footer\d*)|ppt\/slides\/slide\d+)\.xml$/)
+    .map(file => file.asText().replace(/<[^>]+>/g, ""))
+    .join("\n");
+  if (/\{\{[^{}]+\}\}/.test(text)) return DELIMITER_PRESETS.double;
+  if (/\{[^{}]+\}/.test(text)) return DELIMITER_PRESETS.single;
+  if (/\[[^[\]]+\]/.test(text)) return DELIMITER_PRESETS.square;
+  return DEFAULT_DELIMITERS;
+};
+
+// Matches tags in preview HTML, where the delimiters are HTML-escaped and a tag
+// split by formatting (so containing markup) is left alone
+const getPreviewTagPattern = (delimiters: TemplateDelimiters): RegExp =>
+  new RegExp(
+    `${escapeRegExp(escapeXml(delimiters.start))}([^<]*?)${escapeRegExp(escapeXml(delimiters.end))}`,
+    "g",
+  );
+
+const unescapeXml = (value: string): string =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+// PowerPoint preview - basic HTML for each slide: positioned text boxes, pictures and
+// background. Sizes use container units so the slide scales with the preview pane.
+const DEFAULT_SLIDE_SIZE = { cx: 12192000, cy: 6858000 };
+const EMU_PER_POINT = 12700;
+const PREVIEW_IMAGE_TYPES: { [extension: string]: string } = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  svg: "image/svg+xml",
+};
+
+interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+}
+
+interface SlideBox {
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+}
+
+const parseXml = (zip: PizZip, path: string): Document | null => {
+  const xml = zip.file(path)?.asText();
+  return xml ? new DOMParser().parseFromString(xml, "application/xml") : null;
+};
+
+// Targets are resolved against the part's folder, e.g. "../media/image1.png"
+const readRelationships = (zip: PizZip, partPath: string): Relationship[] => {
+  const doc = parseXml(zip, partPath.replace(/([^/]+)$/, "_rels/$1.rels"));
+  if (!doc) return [];
+  return Array.from(doc.getElementsByTagName("Relationship"))
+    .filter(rel => rel.getAttribute("TargetMode") !== "External")
+    .map(rel => {
+      const folders = partPath.split("/").slice(0, -1);
+      (rel.getAttribute("Target") || "").split("/").forEach(segment => {
+        if (segment === "..") folders.pop();
+        else if (segment && segment !== ".") folders.push(segment);
+      });
+      return {
+        id: rel.getAttribute("Id") || "",
+        type: rel.getAttribute("Type") || "",
+        target: folders.join("/"),
+      };
+    });
+};
+
+const getRelatedPart = (rels: Relationship[], type: string): string | undefined =>
+  rels.find(rel => rel.type.endsWith(`/${type}`))?.target;
+
+const getImageDataUrl = (zip: PizZip, rels: Relationship[], blip: Element | undefined): string | undefined => {
+  const target = rels.find(rel => rel.id === blip?.getAttribute("r:embed"))?.target;
+  const mimeType = PREVIEW_IMAGE_TYPES[target?.split(".").pop()?.toLowerCase() || ""];
+  const file = target ? zip.file(target) : null;
+  return file && mimeType ? `data:${mimeType};base64,${btoa(file.asBinary())}` : undefined;
+};
+
+const getSolidFill = (parent: Element | undefined): string | undefined => {
+  const fill = Array.from(parent?.children || []).find(child => child.nodeName === "a:solidFill");
+  const color = fill?.getElementsByTagName("a:srgbClr")[0]?.getAttribute("val");
+  return color ? `#${color}` : undefined;
+};
+
+const getSlideBox = (shape: Element): SlideBox | undefined => {
+  const xfrm = shape.getElementsByTagName("a:xfrm")[0];
+  const off = xfrm?.getElementsByTagName("a:off")[0];
+  const ext = xfrm?.getElementsByTagName("a:ext")[0];
+  if (!off || !ext) return undefined;
+  return {
+    x: Number(off.getAttribute("x")),
+    y: Number(off.getAttribute("y")),
+    cx: Number(ext.getAttribute("cx")),
+    cy: Number(ext.getAttribute("cy")),
+  };
+};
+
+// Slide placeholders without their own position inherit it from the layout/master
+const getPlaceholderKeys = (shape: Element): string[] => {
+  const ph = shape.getElementsByTagName("p:ph")[0];
+  if (!ph) return [];
+  const keys = [`type:${ph.getAttribute("type") || "body"}`];
+  if (ph.getAttribute("idx")) keys.unshift(`idx:${ph.getAttribute("idx")}`);
+  return keys;
+};
+
+const collectPlaceholderBoxes = (doc: Document | null, boxes: Map<string, SlideBox>) => {
+  Array.from(doc?.getElementsByTagName("p:sp") || []).forEach(shape => {
+    const box = getSlideBox(shape);
+    if (!box) return;
+    getPlaceholderKeys(shape).forEach(key => {
+      if (!boxes.has(key)) boxes.set(key, box);
+    });
+  });
+};
+
+const getBackground = (zip: PizZip, doc: Document | null, rels: Relationship[]): string | undefined => {
+  const bgPr = doc?.getElementsByTagName("p:bgPr")[0];
+  if (!bgPr) return undefined;
+  const image = getImageDataUrl(zip, rels, bgPr.getElementsByTagName("a:blip")[0]);
+  if (image) return `url(${image}) center / 100% 100% no-repeat`;
+  return getSolidFill(bgPr);
+};
+
+const renderSlideParagraph = (paragraph: Element, slideWidth: number): string => {
+  const rPr = paragraph.getElementsByTagName("a:rPr")[0] || paragraph.getElementsByTagName("a:endParaRPr")[0];
+  const size = Number(rPr?.getAttribute("sz") || 1800) / 100;
+  const align = { ctr: "center", r: "right", just: "justify" }[
+    paragraph.getElementsByTagName("a:pPr")[0]?.getAttribute("algn") || ""
+  ] || "left";
+  const styles = [
+    `font-size:${((size * EMU_PER_POINT) / slideWidth) * 100}cqw`,
+    `text-align:${align}`,
+    "margin:0",
+    "line-height:1.2",
+    rPr?.getAttribute("b") === "1" ? "font-weight:bold" : "",
+    rPr?.getAttribute("i") === "1" ? "font-style:italic" : "",
+    getSolidFill(rPr) ? `color:${getSolidFill(rPr)}` : "",
+  ].filter(Boolean).join(";");
+
+  // Runs are joined so tags split across formatting runs still merge in the preview
+  const text = Array.from(paragraph.children)
+    .map(child => {
+      if (child.nodeName === "a:br") return "<br/>";
+      if (child.nodeName === "a:r" || child.nodeName === "a:fld") {
+        return escapeXml(child.getElementsByTagName("a:t")[0]?.textContent || "");
+      }
+      return "";
+    })
+    .join("");
+  return `<p style="${styles}">${text || "&nbsp;"}</p>`;
+};
+
+const pptxToHtml = (buffer: ArrayBuffer): string => {
+  const zip = new PizZip(buffer);
+  const presentation = parseXml(zip, "ppt/presentation.xml");
+  const slideSize = presentation?.getElementsByTagName("p:sldSz")[0];
+  const slideWidth = Number(slideSize?.getAttribute("cx")) || DEFAULT_SLIDE_SIZE.cx;
+  const slideHeight = Number(slideSize?.getAttribute("cy")) || DEFAULT_SLIDE_SIZE.cy;
+  const presentationRels = readRelationships(zip, "ppt/presentation.xml");
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  const slides = Array.from(presentation?.getElementsByTagName("p:sldId") || []).map(slideId => {
+    const slidePath = presentationRels.find(rel => rel.id === slideId.getAttribute("r:id"))?.target || "";
+    const slide = parseXml(zip, slidePath);
+    const slideRels = readRelationships(zip, slidePath);
+    const layoutPath = getRelatedPart(slideRels, "slideLayout");
+    const layout = layoutPath ? parseXml(zip, layoutPath) : null;
+    const layoutRels = layoutPath ? readRelationships(zip, layoutPath) : [];
+    const masterPath = getRelatedPart(layoutRels, "slideMaster");
+    const master = masterPath ? parseXml(zip, masterPath) : null;
+
+    const placeholderBoxes = new Map<string, SlideBox>();
+    collectPlaceholderBoxes(layout, placeholderBoxes);
+    collectPlaceholderBoxes(master, placeholderBoxes);
+
+    const background =
+      getBackground(zip, slide, slideRels) ||
+      getBackground(zip, layout, layoutRels) ||
+      (masterPath ? getBackground(zip, master, readRelationships(zip, masterPath)) : undefined) ||
+      "#ffffff";
+
+    // Document order keeps the z-order; shapes inside groups are drawn at their own offsets
+    const shapes = Array.from(slide?.getElementsByTagName("p:cSld")[0]?.getElementsByTagName("*") || [])
+      .filter(el => el.nodeName === "p:sp" || el.nodeName === "p:pic")
+      .map(shape => {
+        const box = getSlideBox(shape) ||
+          getPlaceholderKeys(shape).map(key => placeholderBoxes.get(key)).find(Boolean);
+        if (!box) return "";
+        const position = `position:absolute;left:${percent(box.x, slideWidth)};top:${percent(box.y, slideHeight)};` +
+          `width:${percent(box.cx, slideWidth)};height:${percent(box.cy, slideHeight)};`;
+
+        if (shape.nodeName === "p:pic") {
+          const src = getImageDataUrl(zip, slideRels, shape.getElementsByTagName("a:blip")[0]);
+          return src ? `<img src="${src}" alt="" style="${position}object-fit:fill;" />` : "";
+        }
+
+        const anchor = shape.getElementsByTagName("a:bodyPr")[0]?.getAttribute("anchor");
+        const justify = anchor === "ctr" ? "center" : anchor === "b" ? "flex-end" : "flex-start";
+        const fill = getSolidFill(shape.getElementsByTagName("p:spPr")[0]);
+        const paragraphs = Array.from(shape.getElementsByTagName("p:txBody")[0]?.getElementsByTagName("a:p") || [])
+          .map(p => renderSlideParagraph(p, slideWidth))
+          .join("");
+        return `<div style="${position}display:flex;flex-direction:column;justify-content:${justify};` +
+          `padding:0.75cqw;box-sizing:border-box;overflow:hidden;${fill ? `background:${fill};` : ""}">${paragraphs}</div>`;
+      })
+      .join("");
+
+    return `<div class="pptx-slide" style="position:relative;width:100%;aspect-ratio:${slideWidth} / ${slideHeight};` +
+      `container-type:inline-size;overflow:hidden;background:${background};margin:0 auto 16px;` +
+      `box-shadow:0 1px 4px rgba(0,0,0,0.2);font-family:Calibri,Arial,sans-serif;">${shapes}</div>`;
+  });
+
+  return slides.join("") || "<p>Preview not available</p>";
+};
+
+// Placeholder detection - a docxtemplater module that captures the parsed tags
+// of every templated file, so we list exactly what docxtemplater will render
+interface ParsedTag {
+  type: string;
+  value: string;
+  module?: string;
+  inverted?: boolean;
+  subparsed?: ParsedTag[];
+}
+
+const getTemplatePart = (filePath: string): TemplatePart => {
+  if (/header\d*\.xml$/.test(filePath)) return "header";
+  if (/footer\d*\.xml$/.test(filePath)) return "footer";
+  if (/ppt\/slides\//.test(filePath)) return "slide";
+  if (/ppt\/slide(Layout|Master)s\//.test(filePath)) return "layout";
+  if (/ppt\/notesSlides\//.test(filePath)) return "notes";
+  return "document";
+};
+
+const createTagCollector = () => {
+  const collected: { [filePath: string]: ParsedTag[] } = {};
+  let currentFile = "";
+  return {
+    collected,
+    module: {
+      name: "TagCollector",
+      set(options: { inspect?: { filePath?: string; postparsed?: ParsedTag[] } }) {
+        if (!options.inspect) return;
+        if (options.inspect.filePath) currentFile = options.inspect.filePath;
+        if (options.inspect.postparsed) collected[currentFile] = options.inspect.postparsed;
+      },
+    },
+  };
+};
+
+// Parses leniently so a template with tag errors still lists its placeholders;
+// the errors themselves are reported by getTemplateErrors
+const detectPlaceholders = (
+  buffer: ArrayBuffer,
+  delimiters: TemplateDelimiters = DEFAULT_DELIMITERS,
+): PlaceholderInfo[] => {
+  const collector = createTagCollector();
+  try {
+    new Docxtemplater(new PizZip(buffer), {
+      ...DOCXTEMPLATER_OPTIONS,
+      delimiters,
+      errorLogging: false,
+      syntax: { allowUnclosedTag: true, allowUnopenedTag: true, allowUnbalancedLoops: true },
+      modules: [createImageModule([]), collector.module],
+    });
+  } catch (error) {
+    if (Object.keys(collector.collected).length === 0) throw error;
+    console.warn("⚠️ Template has tag errors, placeholders may be incomplete:", error);
+  }
+
+  const found = new Map<string, PlaceholderInfo>();
+
+  const addTag = (name: string, kind: PlaceholderKind, part: TemplatePart, prefix?: string) => {
+    const key = `${kind}:${prefix || ""}${name}`;
+    const existing = found.get(key);
+    if (existing) {
+      existing.count++;
+      if (!existing.parts.includes(part)) existing.parts.push(part);
+    } else {
+      const info: PlaceholderInfo = { name, kind, parts: [part], count: 1 };
+      if (prefix) info.prefix = prefix;
+      const source = getTagSource(name);
+      if (isExpressionTag(source)) {
+        try {
+          info.references = Array.from(new Set(getExpressionReferences(compileExpression(source))));
+        } catch {
+          // Read as a plain name, e.g. {Score (%)}; when no column has it,
+          // getTemplateErrors reports the expression
+        }
+      }
+      found.set(key, info);
+    }
+  };
+
+  const walk = (tags: ParsedTag[], part: TemplatePart) => {
+    tags
+      .filter(tag => tag.type === "placeholder" && tag.value.trim() !== ".")
+      .forEach(tag => {
+        const name = tag.value.trim();
+        if (tag.module === "loop") {
+          // {^x} is always a condition; {#x} wrapping other tags is treated as a loop
+          const hasNestedTags = (tag.subparsed || []).some(t => t.type === "placeholder");
+          addTag(name, tag.inverted || !hasNestedTags ? "condition" : "loop", part);
+          walk(tag.subparsed || [], part);
+        } else if (tag.module === IMAGE_MODULE) {
+          const { imageType, barcodePrefix } = tag as ParsedTag & { imageType?: string; barcodePrefix?: string };
+          addTag(name, imageType === "qr" || imageType === "barcode" ? imageType : "image", part, barcodePrefix);
+        } else {
+          addTag(name, "simple", part);
+        }
+      });
+  };
+
+  Object.keys(collector.collected).forEach(filePath => {
+    walk(collector.collected[filePath], getTemplatePart(filePath));
+  });
+
+  return Array.from(found.values());
+};
+
+// The columns an expression tag references; undefined for a plain tag, including
+// one like {Hours (total)} that names a column or field
+const getPlaceholderReferences = (p: PlaceholderInfo, names: string[]): string[] | undefined =>
+  isExpressionTag(getTagSource(p.name), names) ? p.references : undefined;
+
+interface TemplateIssue {
+  id: string;
+  explanation: string;
+  part: TemplatePart;
+  file: string;
+  offset?: number;
+  context?: string;
+}
+
+interface DocxtemplaterErrorProperties {
+  id?: string;
+  explanation?: string;
+  file?: string;
+  offset?: number | number[];
+  context?: string;
+  xtag?: string;
+  rootError?: { message?: string };
+  errors?: { message?: string; properties?: DocxtemplaterErrorProperties }[];
+}
+
+// Image, QR and barcode tags only render in Word - in a slide they would be left blank
+const getPptxImageTagIssues = (
+  collected: { [filePath: string]: ParsedTag[] },
+  delimiters: TemplateDelimiters,
+): TemplateIssue[] => {
+  const issues: TemplateIssue[] = [];
+  const walk = (tags: ParsedTag[], file: string) => tags.forEach(tag => {
+    if (tag.type === "placeholder" && tag.module === IMAGE_MODULE) {
+      const { imageType, barcodePrefix } = tag as ParsedTag & { imageType?: string; barcodePrefix?: string };
+      const prefix = imageType === "qr" ? "QR:" : imageType === "barcode" ? barcodePrefix || "BARCODE:" : "%";
+      issues.push({
+        id: "unsupported_image_tag",
+        explanation: "Image, QR and barcode tags are not supported in PowerPoint templates",
+        part: getTemplatePart(file),
+        file,
+        context: formatTag(`${prefix}${tag.value}`, delimiters),
+      });
+    }
+    walk(tag.subparsed || [], file);
+  });
+  Object.keys(collected)
+    .filter(file => file.startsWith("ppt/"))
+    .forEach(file => walk(collected[file], file));
+  return issues;
+};
+
+// names are the columns and fields the data has - tags naming them are not expressions
+const getTemplateErrors = (
+  buffer: ArrayBuffer,
+  delimiters: TemplateDelimiters = DEFAULT_DELIMITERS,
+  names: string[] = [],
+): TemplateIssue[] => {
+  const collector = createTagCollector();
+  try {
+    new Docxtemplater(new PizZip(buffer), {
+      ...DOCXTEMPLATER_OPTIONS,
+      parser: createExpressionParser(DEFAULT_FORMAT, names),
+      delimiters,
+      errorLogging: false,
+      modules: [createImageModule([]), collector.module],
+    });
+    return getPptxImageTagIssues(collector.collected, delimiters);
+  } catch (error) {
+    const properties = (error as { properties?: DocxtemplaterErrorProperties }).properties;
+    const errors = properties?.errors || [{ message: getErrorMessage(error), properties }];
+    const issues = errors.map((e): TemplateIssue => {
+      const offset = e.properties?.offset;
+      const file = e.properties?.file || "";
+      const explanation = e.properties?.explanation || e.message || "Unknown template error";
+      // Expression syntax errors carry the reason in rootError
+      const reason = e.properties?.rootError?.message;
+      return {
+        id: e.properties?.id || "unknown",
+        explanation: reason ? `${explanation}: ${reason}` : explanation,
+        part: getTemplatePart(file),
+        file,
+        offset: Array.isArray(offset) ? offset[0] : offset,
+        context: e.properties?.context || e.properties?.xtag,
+      };
+    });
+    return [...issues, ...getPptxImageTagIssues(collector.collected, delimiters)];
+  }
+};
+
+// docxtemplater reports every template problem at once in properties.errors
+const getErrorMessage = (error: unknown): string => {
+  const templateErrors = (error as {
+    properties?: { errors?: { properties?: { explanation?: string } }[] };
+  })?.properties?.errors;
+  if (templateErrors && templateErrors.length > 0) {
+    return templateErrors
+      .map(e => e.properties?.explanation)
+      .filter(Boolean)
+      .join("; ");
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+const getPlaceholderNames = (details: PlaceholderInfo[]): string[] =>
+  Array.from(new Set(details.map(p => p.name)));
+
+// Templates saved before detection was tag based only have the scraped word list
+const getTemplatePlaceholderDetails = (
+  template: SavedTemplate,
+  buffer: ArrayBuffer,
+): PlaceholderInfo[] => {
+  if (template.placeholderDetails) return template.placeholderDetails;
+  try {
+    return detectPlaceholders(buffer, getTemplateDelimiters(template));
+  } catch (error) {
+    console.warn(`⚠️ Could not re-detect placeholders for ${template.name}:`, error);
+    return [];
+  }
+};
+
+// Pre-generation validation
+const BUILT_IN_PLACEHOLDERS = ["TODAY", "DATE", "DATE_SHORT", "DATE_ISO", "YEAR", "MONTH", "DAY"];
+
+const isBuiltInPlaceholder = (placeholder: string): boolean =>
+  BUILT_IN_PLACEHOLDERS.includes(placeholder) || placeholder.includes("DATE_ISO");
+
+// Shared by generateDocx and the preview so both show the same dates. "Today" is
+// the date in the template's time zone, not necessarily the browser's
+const getBuiltInValues = (now: Date, format: FormatSettings = DEFAULT_FORMAT): { [placeholder: string]: string } => {
+  const { locale, timeZone } = format;
+  // en-CA formats as yyyy-MM-dd
+  const iso = new Intl.DateTimeFormat("en-CA", { year: "numeric", month: "2-digit", day: "2-digit", timeZone }).format(now);
+  const longDate = now.toLocaleDateString(locale, { year: "numeric", month: "long", day: "numeric", timeZone });
+  return {
+    TODAY: longDate,
+    DATE: longDate,
+    DATE_SHORT: now.toLocaleDateString(locale, { timeZone }),
+    DATE_ISO: iso,
+    YEAR: iso.slice(0, 4),
+    MONTH: iso.slice(5, 7),
+    DAY: iso.slice(8, 10),
+  };
+};
+
+// Exact match first, then case-insensitive
+const findColumn = (placeholder: string, columns: string[]): string | undefined =>
+  columns.find(col => col === placeholder) ||
+  columns.find(col => col.toLowerCase() === placeholder.toLowerCase());
+
+// Column mappings - a mapped column wins while the dataset has it; otherwise (or for a
+// new dataset without that column) placeholders fall back to matching by name
+const resolveColumn = (
+  placeholder: string,
+  columns: string[],
+  mappings: ColumnMappings = {},
+): string | undefined => {
+  const mapping = mappings[placeholder];
+  if (mapping?.source === "column" && columns.includes(mapping.value)) return mapping.value;
+  return findColumn(placeholder, columns);
+};
+
+// Constant and computed mappings give the placeholder a value without any column
+const isMappedToValue = (placeholder: string, mappings: ColumnMappings = {}): boolean =>
+  !!mappings[placeholder] && mappings[placeholder].source !== "column";
+
+// Plain strings are column names (packs written before mappings had a source)
+const normalizeColumnMappings = (
+  raw: { [placeholder: string]: PlaceholderMapping | string } | undefined,
+): ColumnMappings => {
+  const mappings: ColumnMappings = {};
+  Object.entries(raw || {}).forEach(([placeholder, mapping]) => {
+    if (typeof mapping === "string") {
+      mappings[placeholder] = { source: "column", value: mapping };
+    } else if (mapping && ["column", "constant", "computed"].includes(mapping.source)) {
+      mappings[placeholder] = { source: mapping.source, value: String(mapping.value ?? "") };
+    }
+  });
+  return mappings;
+};
+
+// "Full Name", "full_name" and "FullName" all compare as "fullname"
+const normalizeFieldName = (name: string): string =>
+  name.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9]/g, "");
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 0 to 1. A name contained in the other ("name" in "Full Name") scores at least 0.6,
+// otherwise the score is the share of characters that don't need editing
+const nameSimilarity = (a: string, b: string): number => {
+  const x = normalizeFieldName(a);
+  const y = normalizeFieldName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const [shorter, longer] = x.length <= y.length ? [x, y] : [y, x];
+  const contained = shorter.length >= 3 && longer.includes(shorter)
+    ? 0.6 + 0.3 * (shorter.length / longer.length)
+    : 0;
+  return Math.max(contained, 1 - editDistance(x, y) / longer.length);
+};
+
+const MAPPING_SUGGESTION_THRESHOLD = 0.6;
+
+const suggestColumn = (
+  placeholder: string,
+  columns: string[],
+): { column: string; score: number } | undefined =>
+  columns
+    .map(column => ({ column, score: nameSimilarity(placeholder, column) }))
+    .filter(s => s.score >= MAPPING_SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score)[0];
+
+// The names a template reads from the data: simple tags, the columns its
+// expressions and computed fields reference - not built-ins or computed fields
+const getMappablePlaceholders = (
+  details: PlaceholderInfo[],
+  settings: Pick<SavedTemplate, "computedFields" | "columnMappings"> = {},
+  columns: string[] = [],
+): string[] => {
+  const computedFields = settings.computedFields || [];
+  const isComputed = (name: string) => computedFields.some(f => f.name.toLowerCase() === name.toLowerCase());
+  const plainNames = getPlainTagNames(columns, settings);
+  const names = [
+    ...details.flatMap(p => getPlaceholderReferences(p, plainNames) || [getTagSource(p.name)]),
+    ...getComputedFieldReferences(computedFields),
+  ];
+  return Array.from(new Set(names)).filter(name =>
+    !isBuiltInPlaceholder(name) && !isComputed(name) && !isExpressionTag(name, plainNames),
+  );
+};
+
+// Computed fields - named expressions over the record, each able to use the ones
+// defined above it. Results are stored as text, dates in the template's language
+const getComputedFieldError = (field: ComputedField, earlier: ComputedField[]): string | null => {
+  if (!/^[A-Za-z_\u00C0-\uFFFF][A-Za-z0-9_\u00C0-\uFFFF]*$/.test(field.name)) {
+    return `"${field.name}" is not a valid field name (letters, digits and _ only)`;
+  }
+  if (earlier.some(f => f.name.toLowerCase() === field.name.toLowerCase())) {
+    return `"${field.name}" is defined twice`;
+  }
+  try {
+    compileExpression(normalizeExpression(field.expression));
+    return null;
+  } catch (error) {
+    return `${field.name}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+};
+
+const getComputedFieldReferences = (fields: ComputedField[]): string[] =>
+  fields.flatMap(field => {
+    try {
+      return getExpressionReferences(compileExpression(normalizeExpression(field.expression)));
+    } catch {
+      return [];
+    }
+  });
+
+const applyComputedFields = (
+  fields: ComputedField[],
+  templateData: { [key: string]: string },
+  format: FormatSettings,
+): void => {
+  fields.forEach(field => {
+    try {
+      const expr = compileExpression(normalizeExpression(field.expression));
+      const value = evaluateExpression(expr, name => lookupScopeValue([templateData], name), format);
+      templateData[field.name] = toText(value, format.locale);
+    } catch (error) {
+      console.warn(`⚠️ Computed field ${field.name} failed:`, error);
+      templateData[field.name] = "";
+    }
+  });
+};
+
+// The data generateDocx renders and the preview evaluates: every column (so section
+// expressions can use any of them), the built-in dates, the certificate number for
+// *DATE_ISO tags, the template's column mappings, each tag's matching column under
+// the name the tag uses and the template's computed fields. Column values are formatted
+// by their column type, so date columns read as dates in the template's locale
+const buildTemplateData = (
+  record: CertificateData,
+  placeholders: string[],
+  certNumber: string,
+  format: FormatSettings,
+  computedFields: ComputedField[] = [],
+  mappings: ColumnMappings = {},
+  columnTypes: ColumnTypes = {},
+): { [key: string]: string } => {
+  const columns = Object.keys(record);
+  const valueOf = (column: string) => formatColumnValue(record[column], columnTypes[column], format.locale);
+  const templateData: { [key: string]: string } = {};
+  columns.forEach(key => {
+    templateData[key] = valueOf(key);
+  });
+  Object.assign(templateData, getBuiltInValues(new Date(), format));
+
+  // Mapped names are set up front so expressions and computed fields can use them too
+  Object.entries(mappings).forEach(([placeholder, mapping]) => {
+    if (mapping.source === "constant") {
+      templateData[placeholder] = mapping.value;
+    } else if (mapping.source === "column" && columns.includes(mapping.value)) {
+      templateData[placeholder] = valueOf(mapping.value);
+    }
+  });
+
+  placeholders.map(getTagSource).forEach(source => {
+    // Expressions are evaluated by the parser against the record columns
+    if (isExpressionTag(source, columns) || isMappedToValue(source, mappings)) return;
+    if (source.includes("DATE_ISO")) {
+      templateData[source] = certNumber;
+    } else {
+      const column = resolveColumn(source, columns, mappings);
+      if (column) templateData[source] = valueOf(column);
+    }
+  });
+  applyComputedFields(computedFields, templateData, format);
+
+  Object.entries(mappings).forEach(([placeholder, mapping]) => {
+    if (mapping.source === "computed") templateData[placeholder] = templateData[mapping.value] ?? "";
+  });
+  return templateData;
+};
+
+// File names from the template's pattern, e.g. {fullName} - {expires | format:"yyyy"};
+// characters Windows and macOS reject become "_"
+const formatFileName = (
+  pattern: string,
+  templateData: { [key: string]: string },
+  format: FormatSettings,
+): string =>
+  pattern
+    .replace(/\{([^{}]+)\}/g, (_match, tag: string) => toText(evaluateTag(tag, templateData, format), format.locale))
+    .replace(/[\\/:*?"<>|]/g, "_")
+    .trim();
+
+// Renders one tag the way docxtemplater would, for the preview; undefined when the
+// tag has no value or doesn't compile
+const evaluateTag = (
+  tag: string,
+  templateData: { [key: string]: string },
+  format: FormatSettings,
+): ExprValue => {
+  try {
+    return createExpressionParser(format, Object.keys(templateData))(tag).get(templateData, { scopeList: [templateData], meta: { part: {} } }) as ExprValue;
+  } catch {
+    return undefined;
+  }
+};
+
+// Tags with a default filter are allowed to be empty
+const hasDefaultFilter = (tag: string): boolean => {
+  try {
+    return parseTagPipeline(normalizeExpression(tag)).filters.some(f => f.name === "default");
+  } catch {
+    return false;
+  }
+};
+
+interface ValidationReport {
+  templateName?: string;
+  // Placeholders are listed the way the template writes them
+  delimiters?: TemplateDelimiters;
+  templateErrors: TemplateIssue[];
+  unmatchedPlaceholders: string[];
+  unusedColumns: string[];
+  emptyValues: { placeholder: string; column: string; rows: number[] }[];
+  missingAssets: { placeholder: string; value: string; rows: number[] }[];
+  recordCount: number;
+}
+
+const buildValidationReport = (
+  details: PlaceholderInfo[],
+  columns: string[],
+  records: { row: number; record: CertificateData }[],
+  templateErrors: TemplateIssue[],
+  assets: ImageAsset[],
+  settings: Pick<SavedTemplate, "localeColumn" | "timeZoneColumn" | "computedFields" | "columnMappings"> = {},
+): ValidationReport => {
+  const computedFields = settings.computedFields || [];
+  const mappings = settings.columnMappings || {};
+  const isComputed = (name: string) => computedFields.some(f => f.name.toLowerCase() === name.toLowerCase());
+  const hasValue = (name: string) => isComputed(name) || isMappedToValue(name, mappings);
+  const settingColumns = [settings.localeColumn, settings.timeZoneColumn].filter((c): c is string => !!c);
+  const plainNames = getPlainTagNames(columns, settings);
+  const referencesOf = (p: PlaceholderInfo) => getPlaceholderReferences(p, plainNames);
+
+  // Image tags without a column use the asset of the same name, e.g. {%logo};
+  // computed fields are checked through the columns they reference
+  const dataPlaceholders = details.filter(p =>
+    !isBuiltInPlaceholder(getTagSource(p.name)) &&
+    !hasValue(getTagSource(p.name)) &&
+    !(p.kind === "image" && !resolveColumn(p.name, columns, mappings) && findAsset(assets, p.name)),
+  );
+  const matched = dataPlaceholders
+    .filter(p => !referencesOf(p))
+    .map(p => ({ placeholder: p, column: resolveColumn(getTagSource(p.name), columns, mappings) }))
+    .filter((m): m is { placeholder: PlaceholderInfo; column: string } => !!m.column);
+
+  // Expression tags like {#Grade >= 90} depend on the columns they reference
+  const references = Array.from(new Set([
+    ...dataPlaceholders.flatMap(p => referencesOf(p) || []),
+    ...getComputedFieldReferences(computedFields),
+  ])).filter(name => !isBuiltInPlaceholder(name) && !hasValue(name));
+  const referencedColumns = references
+    .map(name => resolveColumn(name, columns, mappings))
+    .filter((col): col is string => !!col);
+
+  // Conditions and loops are allowed to be empty - that just hides the section
+  const required = matched.filter(m =>
+    ["simple", "qr", "barcode"].includes(m.placeholder.kind) && !hasDefaultFilter(m.placeholder.name),
+  );
+
+  const missingAssets = matched
+    .filter(m => m.placeholder.kind === "image")
+    .flatMap(({ placeholder, column }) => {
+      const rowsByValue = new Map<string, number[]>();
+      records.forEach(({ row, record }) => {
+        const value = (record[column]?.toString() || "").trim();
+        if (!value || findAsset(assets, value)) return;
+        rowsByValue.set(value, [...(rowsByValue.get(value) || []), row]);
+      });
+      return Array.from(rowsByValue, ([value, rows]) => ({ placeholder: placeholder.name, value, rows }));
+    });
+
+  return {
+    templateErrors,
+    unmatchedPlaceholders: Array.from(new Set([
+      ...dataPlaceholders.filter(p => !referencesOf(p) && !resolveColumn(getTagSource(p.name), columns, mappings)).map(p => p.name),
+      ...references.filter(name => !resolveColumn(name, columns, mappings)),
+    ])),
+    // Columns the template reads for its settings (e.g. the language column) count as used
+    unusedColumns: columns.filter(col =>
+      !matched.some(m => m.column === col) &&
+      !referencedColumns.includes(col) &&
+      !settingColumns.some(setting => setting.toLowerCase() === col.toLowerCase()),
+    ),
+    emptyValues: required
+      .map(({ placeholder, column }) => ({
+        placeholder: placeholder.name,
+        column,
+        rows: records
+          .filter(({ record }) => (record[column]?.toString() || "").trim() === "")
+          .map(({ row }) => row),
+      }))
+      .filter(e => e.rows.length > 0),
+    missingAssets,
+    recordCount: records.length,
+  };
+};
+
+// Records whose template column names no template - they are left out of generation
+interface UnknownTemplateValue {
+  value: string;
+  rows: number[];
+}
+
+// A record ready to generate - its data row (also its fallback file name) and its template
+interface CertificateJob {
+  record: CertificateData;
+  row: number;
+  loaded: LoadedTemplate;
+}
+
+const hasValidationIssues = (report: ValidationReport): boolean =>
+  report.templateErrors.length > 0 ||
+  report.unmatchedPlaceholders.length > 0 ||
+  report.emptyValues.length > 0 ||
+  report.missingAssets.length > 0;
+
+// Template versions - templates saved before versioning become version 1
+const getTemplateVersions = (template: SavedTemplate): TemplateVersion[] => {
+  if (template.versions && template.versions.length > 0) return template.versions;
+  return [{
+    id: `${template.id}-v1`,
+    number: 1,
+    placeholders: template.placeholders,
+    placeholderDetails: template.placeholderDetails,
+    uploadDate: template.uploadDate,
+    type: template.type,
+  }];
+};
+
+const getActiveVersion = (template: SavedTemplate): TemplateVersion => {
+  const versions = getTemplateVersions(template);
+  return versions.find(v => v.id === template.activeVersionId) || versions[versions.length - 1];
+};
+
+const withActiveVersion = (
+  template: SavedTemplate,
+  versionId: string,
+): SavedTemplate => {
+  const versions = getTemplateVersions(template);
+  const version = versions.find(v => v.id === versionId);
+  if (!version) return template;
+  return {
+    ...template,
+    versions,
+    activeVersionId: version.id,
+    placeholders: version.placeholders,
+    placeholderDetails: version.placeholderDetails,
+    type: version.type,
+  };
+};
+
+const addTemplateVersion = (
+  template: SavedTemplate,
+  version: Omit<TemplateVersion, "number">,
+): SavedTemplate => {
+  const versions = getTemplateVersions(template);
+  const number = Math.max(...versions.map(v => v.number)) + 1;
+  return withActiveVersion(
+    { ...template, versions: [...versions, { ...version, number }] },
+    version.id,
+  );
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Records generation metadata as DOCX custom document properties (File > Info in Word)
+const CUSTOM_PROPS_PATH = "docProps/custom.xml";
+const CUSTOM_PROPS_FMTID = "{D5CDD505-2E9C-101B-9397-08002B2CF9AE}";
+
+const setCustomProperties = (zip: PizZip, properties: { [name: string]: string }) => {
+  const names = Object.keys(properties);
+  let xml = zip.file(CUSTOM_PROPS_PATH)?.asText() ||
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" ' +
+    'xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes"></Properties>';
+
+  names.forEach(name => {
+    xml = xml.replace(
+      new RegExp(`<property [^>]*name="${escapeXml(name)}"[^>]*>.*?</property>`, "g"),
+      "",
+    );
+  });
+
+  const pids = Array.from(xml.matchAll(/pid="(\d+)"/g)).map(m => parseInt(m[1], 10));
+  let nextPid = Math.max(1, ...pids) + 1;
+  const added = names
+    .map(name =>
+      `<property fmtid="${CUSTOM_PROPS_FMTID}" pid="${nextPid++}" name="${escapeXml(name)}">` +
+      `<vt:lpwstr>${escapeXml(properties[name])}</vt:lpwstr></property>`,
+    )
+    .join("");
+  xml = xml.replace("</Properties>", `${added}</Properties>`);
+  zip.file(CUSTOM_PROPS_PATH, xml);
+
+  const contentTypes = zip.file("[Content_Types].xml")?.asText();
+  if (contentTypes && !contentTypes.includes(`/${CUSTOM_PROPS_PATH}`)) {
+    zip.file("[Content_Types].xml", contentTypes.replace(
+      "</Types>",
+      `<Override PartName="/${CUSTOM_PROPS_PATH}" ContentType="application/vnd.openxmlformats-officedocument.custom-properties+xml"/></Types>`,
+    ));
+  }
+
+  const rels = zip.file("_rels/.rels")?.asText();
+  if (rels && !rels.includes(CUSTOM_PROPS_PATH)) {
+    zip.file("_rels/.rels", rels.replace(
+      "</Relationships>",
+      `<Relationship Id="rIdCertGenCustom" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/custom-properties" Target="${CUSTOM_PROPS_PATH}"/></Relationships>`,
+    ));
+  }
+};
+
+// Everything besides the record that decides what a generated certificate contains
+interface CertificateRenderContext {
+  binary: ArrayBuffer;
+  template: SavedTemplate | undefined;
+  delimiters: TemplateDelimiters;
+  placeholders: string[];
+  assets: ImageAsset[];
+  columnTypes: ColumnTypes;
+}
+
+// Renders a record exactly as it will be downloaded. The certificate number is only
+// asked for once the template compiles, so a broken template doesn't use one up;
+// the preview passes a peeked number so it never advances the counter
+const renderCertificate = (
+  context: CertificateRenderContext,
+  record: CertificateData,
+  getCertNumber: () => string,
+): { zip: PizZip; templateData: { [key: string]: string }; format: FormatSettings } => {
+  const { template } = context;
+  const format = getRecordFormat(template, record);
+
+  const zip = new PizZip(context.binary);
+  const doc = new Docxtemplater(zip, {
+    ...DOCXTEMPLATER_OPTIONS,
+    parser: createExpressionParser(format, getPlainTagNames(Object.keys(record), template)),
+    delimiters: context.delimiters,
+    nullGetter: () => "",
+    modules: [createImageModule(context.assets, template)],
+  });
+
+  const templateData = buildTemplateData(
+    record,
+    context.placeholders,
+    getCertNumber(),
+    format,
+    template?.computedFields,
+    template?.columnMappings,
+    context.columnTypes,
+  );
+  doc.render(templateData);
+
+  if (template) {
+    const version = getActiveVersion(template);
+    setCustomProperties(doc.getZip(), {
+      "CertGen Template": template.name,
+      "CertGen Template Version": `v${version.number}`,
+      "CertGen Template Version Date": version.uploadDate,
+    });
+  }
+  return { zip: doc.getZip(), templateData, format };
+};
+
+// Template library helpers
+const withLibraryDefaults = (template: SavedTemplate): SavedTemplate => ({
+  ...template,
+  category: template.category || "",
+  tags: template.tags || [],
+  favorite: template.favorite || false,
+  createdAt: template.createdAt || parseInt(template.id, 10) || Date.now(),
+});
+
+const matchesTemplateSearch = (template: SavedTemplate, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return (
+    template.name.toLowerCase().includes(q) ||
+    (template.category || "").toLowerCase().includes(q) ||
+    (template.tags || []).some(tag => tag.toLowerCase().includes(q))
+  );
+};
+
+const compareTemplates = (sort: TemplateSort) => (a: SavedTemplate, b: SavedTemplate): number => {
+  // Favourites always come first
+  if (!!a.favorite !== !!b.favorite) return a.favorite ? -1 : 1;
+  if (sort === "name") return a.name.localeCompare(b.name);
+  if (sort === "created") return (b.createdAt || 0) - (a.createdAt || 0);
+  return (b.lastUsedAt || 0) - (a.lastUsedAt || 0);
+};
+
+// Per-record template selection - a record's value names a template or a tag. Of
+// several tagged templates the selected one wins, then the most recently used
+const findTemplateForValue = (
+  templates: SavedTemplate[],
+  value: string,
+  selectedId: string | null,
+): SavedTemplate | undefined => {
+  const v = value.trim().toLowerCase();
+  if (!v) return undefined;
+  const byName = templates.find(t => t.name.trim().toLowerCase() === v);
+  if (byName) return byName;
+  const tagged = templates.filter(t => (t.tags || []).some(tag => tag.toLowerCase() === v));
+  return tagged.find(t => t.id === selectedId) ||
+    [...tagged].sort((a, b) => (b.lastUsedAt || 0) - (a.lastUsedAt || 0))[0];
+};
+
+const parseTags = (value: string): string[] =>
+  Array.from(new Set(value.split(",").map(tag => tag.trim()).filter(Boolean)));
+
+// Template packs - a zip with manifest.json, one DOCX/HTML pair per version
+// and the template's counter rows in the same CSV format as LocalStorage
+const PACK_FORMAT = "certgen-template-pack";
+const PACK_VERSION = 1;
+
+type PackImportMode = "merge" | "replace";
+
+interface TemplatePackManifest {
+  format: string;
+  packVersion: number;
+  exportedAt: string;
+  template: Omit<SavedTemplate, "versions" | "columnMappings">;
+  versions: (TemplateVersion & { docxFile: string; htmlFile: string })[];
+  columnMappings: { [placeholder: string]: PlaceholderMapping | string };
+}
+
+interface TemplatePack {
+  template: SavedTemplate;
+  files: TemplateFile[];
+  counters: DownloadCounter[];
+  exportedAt: string;
+}
+
+// Counter ids are the template id, or `${id}_${prefix}` for prefixed counters
+const belongsToTemplate = (counter: DownloadCounter, templateId: string): boolean =>
+  counter.templateId === templateId || counter.templateId.startsWith(`${templateId}_`);
+
+const createTemplatePack = async (template: SavedTemplate): Promise<Blob> => {
+  const zip = new PizZip();
+  const versions = getTemplateVersions(template);
+  const files = await getTemplateFiles(template.id);
+  const buffers = new Map(await Promise.all(
+    files.map(async file => [file.versionId, { binary: await file.binary.arrayBuffer(), html: file.html }] as const),
+  ));
+
+  const manifest: TemplatePackManifest = {
+    format: PACK_FORMAT,
+    packVersion: PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    template: {
+      id: template.id,
+      name: template.name,
+      placeholders: template.placeholders,
+      placeholderDetails: template.placeholderDetails,
+      uploadDate: template.uploadDate,
+      activeVersionId: getActiveVersion(template).id,
+      category: template.category,
+      tags: template.tags,
+      favorite: template.favorite,
+      createdAt: template.createdAt,
+      lastUsedAt: template.lastUsedAt,
+      type: template.type,
+      qrUrlPattern: template.qrUrlPattern,
+      barcodeHeight: template.barcodeHeight,
+      barcodeShowText: template.barcodeShowText,
+      delimiters: template.delimiters,
+      locale: template.locale,
+      timeZone: template.timeZone,
+      localeColumn: template.localeColumn,
+      timeZoneColumn: template.timeZoneColumn,
+      computedFields: template.computedFields,
+      fileNamePattern: template.fileNamePattern,
+    },
+    versions: versions.map(version => {
+      const file = buffers.get(version.id);
+      if (!file) throw new Error(`The file of version ${version.number} is missing from browser storage`);
+      const docxFile = `versions/${version.id}.${version.type || "docx"}`;
+      const htmlFile = `versions/${version.id}.html`;
+      zip.file(docxFile, file.binary);
+      zip.file(htmlFile, file.html);
+      return { ...version, docxFile, htmlFile };
+    }),
+    columnMappings: template.columnMappings || {},
+  };
+
+  zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+  zip.file("counters.csv", countersToCsv(
+    loadCounters().filter(c => belongsToTemplate(c, template.id)),
+  ));
+
+  return zip.generate({ type: "blob", compression: "DEFLATE" });
+};
+
+const readTemplatePack = (buffer: ArrayBuffer): TemplatePack => {
+  let zip: PizZip;
+  try {
+    zip = new PizZip(buffer);
+  } catch {
+    throw new Error("This file is not a template pack (it is not a zip archive)");
+  }
+
+  const manifestFile = zip.file("manifest.json");
+  if (!manifestFile) throw new Error("Template pack is missing manifest.json");
+
+  let manifest: TemplatePackManifest;
+  try {
+    manifest = JSON.parse(manifestFile.asText());
+  } catch {
+    throw new Error("Template pack manifest is not valid JSON");
+  }
+
+  if (manifest.format !== PACK_FORMAT) {
+    throw new Error("This file is not a certificate template pack");
+  }
+  if (typeof manifest.packVersion !== "number" || manifest.packVersion > PACK_VERSION) {
+    throw new Error(`Template pack version ${manifest.packVersion} is not supported (max ${PACK_VERSION})`);
+  }
+  if (!manifest.template?.id || !manifest.template?.name) {
+    throw new Error("Template pack manifest has no template id or name");
+  }
+  if (!Array.isArray(manifest.versions) || manifest.versions.length === 0) {
+    throw new Error("Template pack contains no template versions");
+  }
+
+  const files: TemplateFile[] = [];
+  const versions: TemplateVersion[] = manifest.versions.map(({ docxFile, htmlFile, ...meta }) => {
+    const docx = zip.file(docxFile);
+    if (!docx) throw new Error(`Template pack is missing ${docxFile}`);
+    const buffer = docx.asArrayBuffer();
+    const expectedType = meta.type || "docx";
+    try {
+      if (getTemplateType(new PizZip(buffer)) !== expectedType) throw new Error();
+    } catch {
+      throw new Error(`${docxFile} in the template pack is not a valid ${expectedType.toUpperCase()} file`);
+    }
+    files.push({
+      templateId: manifest.template.id,
+      versionId: meta.id,
+      binary: new Blob([buffer], { type: TEMPLATE_MIME_TYPES[expectedType] }),
+      html: zip.file(htmlFile)?.asText() || "",
+    });
+    return meta;
+  });
+
+  const template = withActiveVersion(
+    {
+      ...manifest.template,
+      versions,
+      columnMappings: normalizeColumnMappings(manifest.columnMappings),
+    },
+    versions.some(v => v.id === manifest.template.activeVersionId)
+      ? manifest.template.activeVersionId!
+      : versions[versions.length - 1].id,
+  );
+
+  const countersCsv = zip.file("counters.csv")?.asText();
+  const counters = countersCsv
+    ? parseCountersCsv(countersCsv).filter(c => belongsToTemplate(c, template.id))
+    : [];
+
+  return { template: withLibraryDefaults(template), files, counters, exportedAt: manifest.exportedAt };
+};
+
+// Re-reads a version's placeholders with other delimiters; a version whose file can't be
+// read is left with none
+const redetectVersion = async (
+  version: TemplateVersion,
+  file: TemplateFile | undefined,
+  delimiters: TemplateDelimiters,
+): Promise<TemplateVersion> => {
+  try {
+    if (!file) throw new Error("file missing from browser storage");
+    const details = detectPlaceholders(await file.binary.arrayBuffer(), delimiters);
+    return { ...version, placeholders: getPlaceholderNames(details), placeholderDetails: details };
+  } catch (error) {
+    console.warn(`⚠️ Could not re-detect placeholders for version ${version.number}:`, error);
+    return { ...version, placeholders: [], placeholderDetails: [] };
+  }
+};
+
+// Merge keeps the existing active version and adds versions it does not have yet. The
+// existing copy's delimiters win, so added versions are re-detected with them when the
+// pack used others
+const mergeTemplatePack = async (
+  existing: SavedTemplate,
+  incoming: SavedTemplate,
+  files: TemplateFile[],
+): Promise<SavedTemplate> => {
+  const existingVersions = getTemplateVersions(existing);
+  const delimiters = getTemplateDelimiters(existing);
+  const redetect = !sameDelimiters(delimiters, getTemplateDelimiters(incoming));
+  let nextNumber = Math.max(...existingVersions.map(v => v.number)) + 1;
+  const newVersions = await Promise.all(getTemplateVersions(incoming)
+    .filter(v => !existingVersions.some(e => e.id === v.id))
+    .map(v => ({ ...v, number: nextNumber++ }))
+    .map(v => redetect ? redetectVersion(v, files.find(f => f.versionId === v.id), delimiters) : v));
+
+  return withActiveVersion(
+    {
+      ...existing,
+      versions: [...existingVersions, ...newVersions],
+      category: existing.category || incoming.category,
+      tags: Array.from(new Set([...(existing.tags || []), ...(incoming.tags || [])])),
+      columnMappings: { ...incoming.columnMappings, ...existing.columnMappings },
+      qrUrlPattern: existing.qrUrlPattern || incoming.qrUrlPattern,
+      barcodeHeight: existing.barcodeHeight ?? incoming.barcodeHeight,
+      barcodeShowText: existing.barcodeShowText ?? incoming.barcodeShowText,
+      locale: existing.locale || incoming.locale,
+      timeZone: existing.timeZone || incoming.timeZone,
+      localeColumn: existing.localeColumn || incoming.localeColumn,
+      timeZoneColumn: existing.timeZoneColumn || incoming.timeZoneColumn,
+      computedFields: [
+        ...(existing.computedFields || []),
+        ...(incoming.computedFields || []).filter(f =>
+          !(existing.computedFields || []).some(e => e.name.toLowerCase() === f.name.toLowerCase())),
+      ],
+      fileNamePattern: existing.fileNamePattern || incoming.fileNamePattern,
+    },
+    getActiveVersion(existing).id,
+  );
+};
+
+const importTemplateCounters = (
+  templateId: string,
+  incoming: DownloadCounter[],
+  mode: PackImportMode,
+): void => {
+  const counters = mode === "replace"
+    ? loadCounters().filter(c => !belongsToTemplate(c, templateId))
+    : loadCounters();
+
+  incoming.forEach(counter => {
+    const existing = counters.find(
+      c => c.templateId === counter.templateId && c.monthKey === counter.monthKey,
+    );
+    if (existing) {
+      existing.count = Math.max(existing.count, counter.count);
+    } else {
+      counters.push({ ...counter });
+    }
+  });
+
+  saveCounters(counters);
+};
+
+// Before v5 each template and version held its file inline as base64 along with its HTML
+type LegacyTemplateVersion = TemplateVersion & { binary?: string; html?: string };
+type LegacyTemplate = Omit<SavedTemplate, "versions"> & {
+  binary?: string;
+  html?: string;
+  versions?: LegacyTemplateVersion[];
+};
+
+const base64ToBlob = (base64: string, type: string): Blob => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+const migrateTemplateRecord = (record: LegacyTemplate): { template: SavedTemplate; files: TemplateFile[] } => {
+  const legacyVersions: LegacyTemplateVersion[] = record.versions && record.versions.length > 0
+    ? record.versions
+    : [{ ...getActiveVersion({ ...record, versions: undefined }), binary: record.binary, html: record.html }];
+
+  const files = legacyVersions
+    .filter(version => version.binary)
+    .map(version => ({
+      templateId: record.id,
+      versionId: version.id,
+      binary: base64ToBlob(version.binary!, TEMPLATE_MIME_TYPES[version.type || "docx"]),
+      html: version.html || "",
+    }));
+  const versions = legacyVersions.map(version => {
+    const meta = { ...version };
+    delete meta.binary;
+    delete meta.html;
+    return meta;
+  });
+
+  const template: LegacyTemplate = { ...record, versions };
+  delete template.binary;
+  delete template.html;
+  return { template: withActiveVersion(template as SavedTemplate, getActiveVersion(template as SavedTemplate).id), files };
+};
+
+const openDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      const upgradeTransaction = (event.target as IDBOpenDBRequest).transaction!;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(EXCEL_STORE)) {
+        db.createObjectStore(EXCEL_STORE, { keyPath: "id" });
+      }
+      // v4: image assets (logos, signatures, seals)
+      if (!db.objectStoreNames.contains(ASSET_STORE)) {
+        db.createObjectStore(ASSET_STORE, { keyPath: "id" });
+      }
+      // v5: template files as Blobs, one per template version
+      if (!db.objectStoreNames.contains(TEMPLATE_FILE_STORE)) {
+        db.createObjectStore(TEMPLATE_FILE_STORE, { keyPath: ["templateId", "versionId"] });
+      }
+
+      // v3: template library metadata (category, tags, favourites, dates)
+      const store = upgradeTransaction.objectStore(STORE_NAME);
+      if (event.oldVersion < 3) {
+        if (!store.indexNames.contains("category")) {
+          store.createIndex("category", "category");
+        }
+        if (!store.indexNames.contains("tags")) {
+          store.createIndex("tags", "tags", { multiEntry: true });
+        }
+      }
+
+      // One pass over existing templates for both upgrades: library defaults (v3)
+      // and moving base64 files out of the template records (v5)
+      if (event.oldVersion > 0 && event.oldVersion < 5) {
+        const fileStore = upgradeTransaction.objectStore(TEMPLATE_FILE_STORE);
+        store.openCursor().onsuccess = (cursorEvent) => {
+          const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          const record = event.oldVersion < 3 ? withLibraryDefaults(cursor.value) : cursor.value;
+          const { template, files } = migrateTemplateRecord(record);
+          files.forEach(file => fileStore.put(file));
+          cursor.update(template);
+          cursor.continue();
+        };
+      }
+    };
+  });
+};
+
+const formatMegabytes = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+// The browser decides how much IndexedDB may hold (usually a share of the free disk
+// space), so new files are checked against what is left of that quota
+const checkStorageQuota = async (bytes: number): Promise<void> => {
+  if (!navigator.storage?.estimate) return;
+  const { usage = 0, quota } = await navigator.storage.estimate();
+  console.log(`📊 Storage: ${formatMegabytes(usage)} used of ${quota ? formatMegabytes(quota) : "unknown"}`);
+  if (quota !== undefined && usage + bytes > quota) {
+    throw new Error(
+      `Not enough browser storage: this needs ${formatMegabytes(bytes)} but only ${formatMegabytes(Math.max(0, quota - usage))} is free. ` +
+      "Delete unused templates or versions and try again.",
+    );
+  }
+};
+
+// Files are written with the template in one transaction; pass only new or changed files
+const saveTemplate = async (template: SavedTemplate, files: TemplateFile[] = []): Promise<void> => {
+  const size = files.reduce((total, file) => total + file.binary.size + file.html.length * 2, 0);
+  if (size > 0) {
+    console.log(`📊 Template file size: ${formatMegabytes(size)}`);
+    await checkStorageQuota(size);
+  }
+
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    try {
+      const transaction = db.transaction([STORE_NAME, TEMPLATE_FILE_STORE], "readwrite");
+      const store = transaction.objectStore(STORE_NAME);
+      const fileStore = transaction.objectStore(TEMPLATE_FILE_STORE);
+
+      files.forEach(file => fileStore.put(file));
+      const request = store.put(template);
+
+      request.onsuccess = () => {
+        console.log("✅ IndexedDB write successful");
+        resolve();
+      };
+
+      request.onerror = () => {
+        console.error("❌ IndexedDB write error:", request.error);
+        reject(request.error);
+      };
+
+      transaction.oncomplete = () => {
+        console.log("✅ Transaction complete");
+      };
+
+      transaction.onerror = () => {
+        console.error("❌ Transaction error:", transaction.error);
+        reject(transaction.error);
+      };
+    } catch (error) {
+      console.error("❌ Exception in saveTemplate:", error);
+      reject(error);
+    }
+  });
+};
+
+const getAllTemplates = async (): Promise<SavedTemplate[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], "readonly");
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// All [templateId, versionId] keys of one template ([] sorts after every string)
+const templateFileRange = (templateId: string): IDBKeyRange =>
+  IDBKeyRange.bound([templateId], [templateId, []]);
+
+const getTemplateFile = async (templateId: string, versionId: string): Promise<TemplateFile | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TEMPLATE_FILE_STORE], "readonly");
+    const store = transaction.objectStore(TEMPLATE_FILE_STORE);
+    const request = store.get([templateId, versionId]);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getTemplateFiles = async (templateId: string): Promise<TemplateFile[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TEMPLATE_FILE_STORE], "readonly");
+    const store = transaction.objectStore(TEMPLATE_FILE_STORE);
+    const request = store.getAll(templateFileRange(templateId));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Reads the active version's file and detects its tags
+const loadTemplateFile = async (template: SavedTemplate): Promise<LoadedTemplate> => {
+  const version = getActiveVersion(template);
+  const file = await getTemplateFile(template.id, version.id);
+  if (!file) {
+    throw new Error(`The file of "${template.name}" v${version.number} is missing from browser storage`);
+  }
+  const binary = await file.binary.arrayBuffer();
+  const delimiters = getTemplateDelimiters(template);
+  const placeholderDetails = getTemplatePlaceholderDetails(template, binary);
+  return {
+    template,
+    binary,
+    html: file.html,
+    type: template.type || "docx",
+    delimiters,
+    placeholderDetails,
+    placeholders: getPlaceholderNames(placeholderDetails),
+  };
+};
+
+const deleteTemplateFiles = async (templateId: string, versionIds: string[]): Promise<void> => {
+  if (versionIds.length === 0) return;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TEMPLATE_FILE_STORE], "readwrite");
+    const store = transaction.objectStore(TEMPLATE_FILE_STORE);
+    versionIds.forEach(versionId => store.delete([templateId, versionId]));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const deleteTemplate = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, TEMPLATE_FILE_STORE], "readwrite");
+    transaction.objectStore(STORE_NAME).delete(id);
+    transaction.objectStore(TEMPLATE_FILE_STORE).delete(templateFileRange(id));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const saveAsset = async (asset: ImageAsset): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ASSET_STORE], "readwrite");
+    const store = transaction.objectStore(ASSET_STORE);
+    const request = store.put(asset);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getAllAssets = async (): Promise<ImageAsset[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ASSET_STORE], "readonly");
+    const store = transaction.objectStore(ASSET_STORE);
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const deleteAsset = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ASSET_STORE], "readwrite");
+    const store = transaction.objectStore(ASSET_STORE);
+    const request = store.delete(id);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// sheetNames are the workbook sheets the data was read from, so it can be saved back to
+// them; columnTypes are the inferred or chosen type of each column
+const saveExcelData = async (
+  data: CertificateData[],
+  columns: string[],
+  sheetNames: string[],
+  columnTypes: ColumnTypes,
+): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EXCEL_STORE], "readwrite");
+    const store = transaction.objectStore(EXCEL_STORE);
+    const request = store.put({ id: "excel", data, columns, sheetNames, columnTypes });
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const deleteExcelData = async (): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EXCEL_STORE], "readwrite");
+    const store = transaction.objectStore(EXCEL_STORE);
+    const request = store.delete("excel");
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getExcelData = async (): Promise<{
+  data: CertificateData[];
+  columns: string[];
+  sheetNames?: string[];
+  columnTypes?: ColumnTypes;
+} | null> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EXCEL_STORE], "readonly");
+    const store = transaction.objectStore(EXCEL_STORE);
+    const request = store.get("excel");
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Dataset settings are stored beside the data under their own key, so they carry
+// over to the next upload of a dataset with the same columns
+interface DatasetSettings {
+  templateColumn?: string;
+  columnRules?: ColumnRules;
+  // Records breaking a column rule are left out of downloads and printing
+  excludeInvalid?: boolean;
+}
+
+const saveDatasetSettings = async (settings: DatasetSettings): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EXCEL_STORE], "readwrite");
+    const store = transaction.objectStore(EXCEL_STORE);
+    const request = store.put({ ...settings, id: "settings" });
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getDatasetSettings = async (): Promise<DatasetSettings> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EXCEL_STORE], "readonly");
+    const store = transaction.objectStore(EXCEL_STORE);
+    const request = store.get("settings");
+    request.onsuccess = () => resolve(request.result || {});
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Column types - the data keeps the values as read (a date stays an Excel serial number),
+// and the type decides how they are shown, edited, filtered and rendered. Changing a
+// column's type therefore never loses anything
+type ColumnType = "text" | "number" | "date" | "boolean" | "email" | "id";
+
+type ColumnTypes = { [column: string]: ColumnType };
+
+const COLUMN_TYPES: ColumnType[] = ["text", "number", "date", "boolean", "email", "id"];
+
+const COLUMN_TYPE_LABELS: { [type in ColumnType]: string } = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  boolean: "Yes/No",
+  email: "Email",
+  id: "ID",
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// "Student ID", "Course Code", "Ref", "Cert No.", "EmployeeID"
+const ID_HEADER_PATTERNS = [/(^|[^a-z])(id|code|ref|no\.?|number|#)$/i, /[a-z](ID|Id)$/];
+const NUMERIC_TEXT_PATTERN = /^-?\d+(\.\d+)?$/;
+const NUMERIC_DATE_PATTERN = /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/;
+
+// A value and whether its cell carried a date number format
+interface ColumnSample {
+  value: string | number;
+  isDate?: boolean;
+}
+
+const isIdHeader = (column: string): boolean => ID_HEADER_PATTERNS.some(pattern => pattern.test(column.trim()));
+
+// Text that is plainly a date: ISO, 05/01/2024 or "January 5, 2024" - not any text
+// containing a month name and a year
+const looksLikeDate = (text: string): boolean => {
+  const value = text.trim();
+  if (/^\d{4}-\d{2}-\d{2}([T ][\d:.]+Z?)?$/.test(value) || NUMERIC_DATE_PATTERN.test(value)) return true;
+  return value.length <= 30 && /^[\p{L}\d ,.]+$/u.test(value) && parseLocalizedDate(value, DEFAULT_LOCALE) !== null;
+};
+
+// Every sample has to agree; numbers are IDs when they keep leading zeros or the header
+// says so, which stops "Student Number" being summed or formatted
+const inferColumnType = (column: string, samples: ColumnSample[]): ColumnType => {
+  const texts = samples.map(s => String(s.value).trim()).filter(text => text !== "");
+  if (texts.length === 0) return isIdHeader(column) ? "id" : "text";
+  if (texts.every(text => /^(true|false)$/i.test(text))) return "boolean";
+  if (samples.every(s => s.isDate || (typeof s.value === "string" && looksLikeDate(s.value)))) return "date";
+  if (samples.every(s => typeof s.value === "number" || NUMERIC_TEXT_PATTERN.test(s.value.trim()))) {
+    return isIdHeader(column) || texts.some(text => /^-?0\d/.test(text)) ? "id" : "number";
+  }
+  if (texts.every(text => EMAIL_PATTERN.test(text))) return "email";
+  return isIdHeader(column) ? "id" : "text";
+};
+
+// Types from the values alone, for CSV, JSON and datasets stored before column types
+const inferColumnTypes = (rows: CertificateData[], columns: string[]): ColumnTypes =>
+  Object.fromEntries(columns.map(col => [
+    col,
+    inferColumnType(col, rows.filter(row => row[col] !== undefined).map(row => ({ value: row[col] }))),
+  ]));
+
+// Serials count days from 30 December 1899; the date is built in local time so it
+// shows the same calendar day everywhere
+const excelSerialToDate = (serial: number): Date => {
+  const date = new Date(1899, 11, 30);
+  date.setDate(date.getDate() + Math.floor(serial));
+  return date;
+};
+
+const dateToExcelSerial = (date: Date): number =>
+  Math.round((Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - Date.UTC(1899, 11, 30)) / 86400000);
+
+const toIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Dates of a date column as a Date, whether stored as a serial or as text. Text is read
+// in the locale the column is shown in, so 03/04/2024 is 3 April for fr-FR everywhere
+const getColumnDate = (value: string | number | undefined, locale: string): Date | null => {
+  if (typeof value === "number") return excelSerialToDate(value);
+  return parseDateValue(value, locale);
+};
+
+// The text a value stands for in its column's type; values that don't fit the type are
+// shown as they are
+const formatColumnValue = (value: string | number | undefined, type: ColumnType | undefined, locale: string): string => {
+  if (value === undefined || value === null) return "";
+  if (type === "date") {
+    const date = getColumnDate(value, locale);
+    if (date) return formatLongDate(date, locale);
+  }
+  if (type === "boolean" && /^(true|false)$/i.test(String(value).trim())) {
+    return String(value).trim().toUpperCase();
+  }
+  return String(value);
+};
+
+// Column rules - checks on a column's values, set in the editor. Empty cells only break
+// the required rule; dates are given as yyyy-mm-dd
+interface ColumnRule {
+  required?: boolean;
+  unique?: boolean;
+  email?: boolean;
+  pattern?: string;
+  min?: number;
+  max?: number;
+  allowedValues?: string[];
+  minDate?: string;
+  maxDate?: string;
+}
+
+type ColumnRules = { [column: string]: ColumnRule };
+
+// row is the record's index in the data
+interface RuleViolation {
+  row: number;
+  column: string;
+  message: string;
+}
+
+const hasColumnRule = (rule: ColumnRule | undefined): boolean =>
+  !!rule && (
+    !!rule.required || !!rule.unique || !!rule.email || !!rule.pattern ||
+    rule.min !== undefined || rule.max !== undefined ||
+    (rule.allowedValues?.length || 0) > 0 || !!rule.minDate || !!rule.maxDate
+  );
+
+// The reason a rule can't be used, checked before it is saved
+const getColumnRuleError = (rule: ColumnRule): string | null => {
+  if (rule.pattern) {
+    try {
+      new RegExp(rule.pattern);
+    } catch {
+      return `"${rule.pattern}" is not a valid regular expression`;
+    }
+  }
+  if (rule.min !== undefined && rule.max !== undefined && rule.min > rule.max) return "The minimum is above the maximum";
+  if (rule.minDate && rule.maxDate && rule.minDate > rule.maxDate) return "The earliest date is after the latest date";
+  return null;
+};
+
+const validateRecords = (
+  data: CertificateData[],
+  columns: string[],
+  rules: ColumnRules,
+  columnTypes: ColumnTypes,
+  locale: string,
+): RuleViolation[] => {
+  const violations: RuleViolation[] = [];
+  columns.forEach(column => {
+    const rule = rules[column];
+    if (!hasColumnRule(rule) || getColumnRuleError(rule)) return;
+    const pattern = rule.pattern ? new RegExp(rule.pattern) : null;
+    const allowed = (rule.allowedValues || []).map(v => v.trim().toLowerCase());
+    const minDate = rule.minDate ? parseDateValue(rule.minDate, DEFAULT_LOCALE) : null;
+    const maxDate = rule.maxDate ? parseDateValue(rule.maxDate, DEFAULT_LOCALE) : null;
+    // First row of each value, so duplicates can point at it
+    const seen = new Map<string, number>();
+
+    data.forEach((record, row) => {
+      const add = (message: string) => violations.push({ row, column, message });
+      const value = record[column];
+      const text = value === undefined ? "" : String(value).trim();
+      if (text === "") {
+        if (rule.required) add("Required");
+        return;
+      }
+      const shown = formatColumnValue(value, columnTypes[column], locale).trim();
+
+      if (rule.email && !EMAIL_PATTERN.test(text)) add("Not a valid email address");
+      if (pattern && !pattern.test(text)) add(`Doesn't match ${rule.pattern}`);
+      if (allowed.length > 0 && !allowed.includes(shown.toLowerCase())) {
+        add(`Must be one of ${rule.allowedValues!.join(", ")}`);
+      }
+      if (rule.min !== undefined || rule.max !== undefined) {
+        const number = toNumber(value);
+        if (number === null) add("Not a number");
+        else if (rule.min !== undefined && number < rule.min) add(`Below the minimum of ${rule.min}`);
+        else if (rule.max !== undefined && number > rule.max) add(`Above the maximum of ${rule.max}`);
+      }
+      if (minDate || maxDate) {
+        const date = getColumnDate(value, locale);
+        if (!date) add("Not a date");
+        else if (minDate && date < minDate) add(`Before ${rule.minDate}`);
+        else if (maxDate && date > maxDate) add(`After ${rule.maxDate}`);
+      }
+      if (rule.unique) {
+        const key = shown.toLowerCase();
+        const first = seen.get(key);
+        if (first === undefined) seen.set(key, row);
+        else add(`Duplicate of row ${first + 1}`);
+      }
+    });
+  });
+  return violations.sort((a, b) => a.row - b.row || columns.indexOf(a.column) - columns.indexOf(b.column));
+};
+
+// Workbook sheets - one sheet or several with identical headers make a dataset. Combined
+// sheets get a column naming the sheet of each row, which is also how saving splits them again
+const SOURCE_SHEET_COLUMN = "Source Sheet";
+
+interface SheetSummary {
+  name: string;
+  columns: string[];
+  rowCount: number;
+}
+
+interface SheetData {
+  rows: CertificateData[];
+  columns: string[];
+  columnTypes: ColumnTypes;
+}
+
+// Blank headers become "Column N" and repeated ones get a suffix, as SheetJS does
+const uniqueColumnNames = (header: string[], width: number): string[] => {
+  const columns: string[] = [];
+  for (let idx = 0; idx < width; idx++) {
+    const base = (header[idx] || "").trim() || `Column ${idx + 1}`;
+    let name = base;
+    for (let n = 1; columns.includes(name); n++) name = `${base}_${n}`;
+    columns.push(name);
+  }
+  return columns;
+};
+
+// Booleans read as TRUE/FALSE like Excel shows them, and numbers formatted with leading
+// zeros ("00042") keep them; everything else is the raw value
+const getCellValue = (cell: XLSX.CellObject): string | number | undefined => {
+  switch (cell.t) {
+    case "b": return cell.v ? "TRUE" : "FALSE";
+    case "n": return cell.z && /^0{2,}$/.test(String(cell.z)) && cell.w ? cell.w : cell.v as number;
+    case "d": return cell.v instanceof Date ? toIsoDate(cell.v) : cell.w;
+    case "s": return cell.v as string;
+    case "e": return cell.w;
+    default: return undefined;
+  }
+};
+
+// The first row holds the headers. Columns are typed from their cells, so a number is only
+// a date when its cell has a date format; columns with neither a header nor values are dropped.
+// The workbook has to be read with cellNF for the formats to be there
+const readSheet = (workbook: XLSX.WorkBook, name: string): SheetData => {
+  const sheet = workbook.Sheets[name];
+  if (!sheet?.["!ref"]) return { rows: [], columns: [], columnTypes: {} };
+  const range = XLSX.utils.decode_range(sheet["!ref"]);
+  const cellAt = (r: number, c: number) =>
+    sheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+
+  const width = range.e.c - range.s.c + 1;
+  const header = Array.from({ length: width }, (_, idx) => {
+    const cell = cellAt(range.s.r, range.s.c + idx);
+    return cell ? cell.w ?? String(cell.v ?? "") : "";
+  });
+  const names = uniqueColumnNames(header, width);
+  const samples: { [column: string]: ColumnSample[] } = {};
+  const rows: CertificateData[] = [];
+
+  for (let r = range.s.r + 1; r <= range.e.r; r++) {
+    const record: CertificateData = {};
+    names.forEach((col, idx) => {
+      const cell = cellAt(r, range.s.c + idx);
+      if (!cell) return;
+      const value = getCellValue(cell);
+      if (value === undefined || value === "") return;
+      record[col] = value;
+      const isDate = cell.t === "d" || (cell.t === "n" && !!cell.z && XLSX.SSF.is_date(cell.z));
+      (samples[col] = samples[col] || []).push({ value, isDate });
+    });
+    if (Object.keys(record).length > 0) rows.push(record);
+  }
+
+  const columns = names.filter((col, idx) => header[idx].trim() !== "" || samples[col]);
+  const columnTypes: ColumnTypes = Object.fromEntries(
+    columns.map(col => [col, inferColumnType(col, samples[col] || [])]),
+  );
+  return { rows, columns, columnTypes };
+};
+
+const summarizeSheets = (workbook: XLSX.WorkBook): SheetSummary[] =>
+  workbook.SheetNames.map(name => {
+    const { rows, columns } = readSheet(workbook, name);
+    return { name, columns, rowCount: rows.length };
+  });
+
+const sameColumns = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every(col => b.includes(col));
+
+// A column keeps its type when every sheet agrees on it, and is typed from all its
+// values when they don't
+const combineSheets = (workbook: XLSX.WorkBook, names: string[]): SheetData => {
+  if (names.length === 1) return readSheet(workbook, names[0]);
+
+  const sheets = names.map(name => ({ name, ...readSheet(workbook, name) }));
+  const columns = sheets[0].columns;
+  const mismatch = sheets.find(sheet => !sameColumns(sheet.columns, columns));
+  if (mismatch) {
+    throw new Error(`"${mismatch.name}" has different headers than "${sheets[0].name}"`);
+  }
+  if (columns.includes(SOURCE_SHEET_COLUMN)) {
+    throw new Error(`The sheets already have a "${SOURCE_SHEET_COLUMN}" column`);
+  }
+  const rows = sheets.flatMap(sheet => sheet.rows.map(row => ({ ...row, [SOURCE_SHEET_COLUMN]: sheet.name })));
+  const columnTypes: ColumnTypes = { [SOURCE_SHEET_COLUMN]: "text" };
+  columns.forEach(col => {
+    const types = new Set(sheets.map(sheet => sheet.columnTypes[col]));
+    columnTypes[col] = types.size === 1 ? sheets[0].columnTypes[col] : inferColumnTypes(rows, [col])[col];
+  });
+  return { rows, columns: [...columns, SOURCE_SHEET_COLUMN], columnTypes };
+};
+
+// Values go back as the cells their type reads from: dates as date-formatted serials,
+// Yes/No as booleans and numbers as numbers
+const toSheetValue = (value: string | number, type: ColumnType | undefined, locale: string): string | number | boolean => {
+  if (type === "date" && typeof value === "string") {
+    const date = getColumnDate(value, locale);
+    return date ? dateToExcelSerial(date) : value;
+  }
+  if (type === "boolean" && /^(true|false)$/i.test(String(value).trim())) {
+    return String(value).trim().toLowerCase() === "true";
+  }
+  if (type === "number" && typeof value === "string" && NUMERIC_TEXT_PATTERN.test(value.trim())) {
+    return Number(value);
+  }
+  return value;
+};
+
+// Replaces the dataset's sheets in the workbook and leaves its other sheets alone. Rows of a
+// combined dataset go to the sheet in their source column - the first sheet when it's empty
+const writeDatasetSheets = (
+  workbook: XLSX.WorkBook,
+  data: CertificateData[],
+  columns: string[],
+  sheetNames: string[],
+  columnTypes: ColumnTypes,
+  locale: string,
+): void => {
+  const combined = sheetNames.length > 1 && columns.includes(SOURCE_SHEET_COLUMN);
+  const firstSheet = sheetNames[0] || "Sheet1";
+  const sheetOf = (row: CertificateData) =>
+    combined ? (row[SOURCE_SHEET_COLUMN]?.toString() || "").trim() || firstSheet : firstSheet;
+  const names = Array.from(new Set([...(combined ? sheetNames : [firstSheet]), ...data.map(sheetOf)]));
+  const header = columns.filter(col => !combined || col !== SOURCE_SHEET_COLUMN);
+
+  names.forEach(name => {
+    const rows = data
+      .filter(row => sheetOf(row) === name)
+      .map(row => Object.fromEntries(Object.entries(row)
+        .filter(([col]) => !combined || col !== SOURCE_SHEET_COLUMN)
+        .map(([col, value]) => [col, toSheetValue(value, columnTypes[col], locale)])));
+    const sheet = XLSX.utils.json_to_sheet(rows, { header });
+    header.forEach((col, c) => {
+      if (columnTypes[col] !== "date") return;
+      for (let r = 1; r <= rows.length; r++) {
+        const cell = sheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+        if (cell?.t === "n") cell.z = "yyyy-mm-dd";
+      }
+    });
+    if (workbook.SheetNames.includes(name)) {
+      workbook.Sheets[name] = sheet;
+    } else {
+      XLSX.utils.book_append_sheet(workbook, sheet, name);
+    }
+  });
+};
+
+// Data import - workbooks (Excel, ODS) are read by SheetJS, CSV/TSV and JSON here, so
+// the encoding and delimiter can be detected and corrected in the import preview
+const DATA_FILE_ACCEPT = ".xlsx,.xlsm,.xls,.ods,.csv,.tsv,.txt,.json";
+const TEXT_ENCODINGS = ["utf-8", "utf-16le", "utf-16be", "windows-1252"] as const;
+const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+type TextEncodingName = typeof TEXT_ENCODINGS[number];
+
+type ImportSource =
+  | { kind: "workbook"; workbook: XLSX.WorkBook; sheets: SheetSummary[] }
+  | { kind: "delimited"; bytes: Uint8Array; encoding: TextEncodingName; delimiter: string }
+  | { kind: "json"; rows: CertificateData[]; columns: string[] };
+
+interface ImportedDataset extends SheetData {
+  sheetNames: string[];
+}
+
+// A byte order mark settles it; without one, UTF-16 shows up as zero bytes in every
+// other position, and text that isn't valid UTF-8 is taken as Windows-1252
+const detectEncoding = (bytes: Uint8Array): TextEncodingName => {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((byte, idx) => {
+    if (byte !== 0) return;
+    if (idx % 2 === 0) evenZeros++;
+    else oddZeros++;
+  });
+  const pairs = sample.length / 2;
+  if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return "utf-16le";
+  if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return "utf-16be";
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+};
+
+// The byte order mark is dropped by the decoder
+const decodeText = (bytes: Uint8Array, encoding: TextEncodingName): string =>
+  new TextDecoder(encoding).decode(bytes);
+
+// RFC 4180: fields may be quoted, quotes inside them doubled, and quoted fields may span
+// lines. Lines ending in CRLF, LF or CR all work; blank lines are skipped unless asked for
+const parseDelimited = (text: string, delimiter: string, keepBlankLines = false): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') {
+        field += ch;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return keepBlankLines ? rows : rows.filter(r => r.some(value => value.trim() !== ""));
+};
+
+// The delimiter that splits the first lines into the same number of fields most
+// consistently, preferring more fields on a tie
+const detectDelimiter = (text: string): string => {
+  const sample = text.slice(0, 20000);
+  const scores = CSV_DELIMITERS.map(delimiter => {
+    let rows = parseDelimited(sample, delimiter);
+    // The sample may end halfway through a line
+    if (sample.length < text.length) rows = rows.slice(0, -1);
+    rows = rows.slice(0, 20);
+    const width = rows[0]?.length || 0;
+    const consistency = rows.length > 0 ? rows.filter(r => r.length === width).length / rows.length : 0;
+    return { delimiter, width, consistency };
+  }).filter(s => s.width > 1);
+  scores.sort((a, b) => b.consistency - a.consistency || b.width - a.width);
+  return scores[0]?.delimiter || ",";
+};
+
+// The first row holds the headers. Empty cells are left out of the records like in workbooks
+const tableToRecords = (table: string[][]): { rows: CertificateData[]; columns: string[] } => {
+  const [header = [], ...body] = table;
+  const width = body.reduce((max, r) => Math.max(max, r.length), header.length);
+  const columns = uniqueColumnNames(header, width);
+
+  const rows = body.map(values => {
+    const record: CertificateData = {};
+    values.forEach((value, idx) => {
+      if (value !== "") record[columns[idx]] = value;
+    });
+    return record;
+  });
+  return { rows, columns };
+};
+
+// Nested values are kept as their JSON text and nulls as empty cells
+const parseJsonRecords = (text: string): { rows: CertificateData[]; columns: string[] } => {
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed) || !parsed.every(item => item && typeof item === "object" && !Array.isArray(item))) {
+    throw new Error("The JSON file must contain an array of objects");
+  }
+  const rows = (parsed as { [key: string]: unknown }[]).map(item => {
+    const record: CertificateData = {};
+    Object.entries(item).forEach(([key, value]) => {
+      if (value === null || value === undefined) return;
+      record[key] = typeof value === "number"
+        ? value
+        : typeof value === "object" ? JSON.stringify(value) : String(value);
+    });
+    return record;
+  });
+  return { rows, columns: Array.from(new Set(rows.flatMap(row => Object.keys(row)))) };
+};
+
+const readImportSource = async (file: File): Promise<ImportSource> => {
+  const buffer = await file.arrayBuffer();
+  const extension = file.name.split(".").pop()?.toLowerCase() || "";
+
+  if (["csv", "tsv", "txt"].includes(extension)) {
+    const bytes = new Uint8Array(buffer);
+    const encoding = detectEncoding(bytes);
+    const delimiter = extension === "tsv" ? "\t" : detectDelimiter(decodeText(bytes, encoding));
+    return { kind: "delimited", bytes, encoding, delimiter };
+  }
+  if (extension === "json") {
+    const bytes = new Uint8Array(buffer);
+    return { kind: "json", ...parseJsonRecords(decodeText(bytes, detectEncoding(bytes))) };
+  }
+  const workbook = XLSX.read(buffer, { cellNF: true });
+  return { kind: "workbook", workbook, sheets: summarizeSheets(workbook) };
+};
+
+// The dataset an import source gives with the choices made in the import preview
+const getImportedDataset = (
+  source: ImportSource,
+  options: { sheetNames: string[]; encoding?: TextEncodingName; delimiter?: string },
+): ImportedDataset => {
+  if (source.kind === "workbook") {
+    return { ...combineSheets(source.workbook, options.sheetNames), sheetNames: options.sheetNames };
+  }
+  const { rows, columns } = source.kind === "json"
+    ? source
+    : tableToRecords(parseDelimited(
+      decodeText(source.bytes, options.encoding || source.encoding),
+      options.delimiter || source.delimiter,
+    ));
+  return { rows, columns, columnTypes: inferColumnTypes(rows, columns), sheetNames: [] };
+};
+
+// Editor history - an edit is applied and undone from its patch, so only the rows or
+// values it touched are kept
+const EDIT_HISTORY_LIMIT = 100;
+
+const setCellValue = (row: CertificateData, column: string, value: string | number | undefined): CertificateData => {
+  const next = { ...row };
+  if (value === undefined) delete next[column];
+  else next[column] = value;
+  return next;
+};
+
+const applyEditPatch = (
+  data: CertificateData[],
+  layout: ColumnLayout,
+  patch: EditPatch,
+  direction: "redo" | "undo",
+): { data: CertificateData[]; layout: ColumnLayout } => {
+  const undo = direction === "undo";
+  if (patch.kind === "rows") {
+    const [from, to] = undo ? [patch.added, patch.removed] : [patch.removed, patch.added];
+    return { data: [...data.slice(0, patch.start), ...to, ...data.slice(patch.start + from.length)], layout };
+  }
+
+  if (patch.kind === "cells") {
+    const next = [...data];
+    patch.changes.forEach(change => {
+      next[change.row] = setCellValue(next[change.row], change.column, undo ? change.before : change.after);
+    });
+    return { data: next, layout };
+  }
+
+  let next = data;
+  const { renamed, added, removed } = patch;
+  if (renamed) {
+    const [from, to] = undo ? [renamed.to, renamed.from] : [renamed.from, renamed.to];
+    next = next.map(row => {
+      const { [from]: value, ...rest } = row;
+      return value === undefined ? rest : { ...rest, [to]: value };
+    });
+  }
+  if (added) {
+    next = next.map(row => undo ? setCellValue(row, added, undefined) : { ...row, [added]: "" });
+  }
+  if (removed) {
+    next = next.map((row, idx) => setCellValue(row, removed.column, undo ? removed.values[idx] : undefined));
+  }
+  return { data: next, layout: undo ? patch.before : patch.after };
+};
+
+// Editor grid - rows and columns have fixed sizes so only those in view are rendered
+const EDITOR_ROW_HEIGHT = 37;
+const EDITOR_COLUMN_WIDTH = 180;
+const EDITOR_ROW_NUMBER_WIDTH = 56;
+const EDITOR_ACTIONS_WIDTH = 88;
+const EDITOR_OVERSCAN = 6;
+const PROBLEM_LIST_LIMIT = 500;
+
+// The items of a list of equal-sized items that show in the viewport, plus a margin either side
+const getVisibleRange = (
+  offset: number,
+  viewport: number,
+  itemSize: number,
+  count: number,
+  overscan: number,
+): { start: number; end: number } => ({
+  start: Math.max(0, Math.floor(offset / itemSize) - overscan),
+  end: Math.min(count, Math.ceil((offset + viewport) / itemSize) + overscan),
+});
+
+// Editor selection - the rectangle between the cell a selection started from and the active cell
+const getCellRange = (anchor: CellPosition, active: CellPosition): CellRange => ({
+  start: { row: Math.min(anchor.row, active.row), col: Math.min(anchor.col, active.col) },
+  end: { row: Math.max(anchor.row, active.row), col: Math.max(anchor.col, active.col) },
+});
+
+// Text typed or pasted into a cell; number columns keep numbers as numbers
+const parseCellInput = (text: string, type: ColumnType | undefined): string | number =>
+  type === "number" && NUMERIC_TEXT_PATTERN.test(text) ? Number(text) : text;
+
+// Dates are copied as ISO dates, which Excel and Google Sheets read back as dates
+const cellToClipboardText = (value: string | number | undefined, type: ColumnType | undefined, locale: string): string => {
+  if (value === undefined || value === null) return "";
+  const date = type === "date" ? getColumnDate(value, locale) : null;
+  return date ? toIsoDate(date) : String(value);
+};
+
+// Spreadsheets put both tab-separated text and an HTML table on the clipboard
+const cellsToTsv = (cells: string[][]): string =>
+  cells
+    .map(row => row.map(text => /[\t\r\n"]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text).join("\t"))
+    .join("\n");
+
+const cellsToHtml = (cells: string[][]): string =>
+  `<table>${cells
+    .map(row => `<tr>${row.map(text => `<td>${escapeXml(text).replace(/\n/g, "<br>")}</td>`).join("")}</tr>`)
+    .join("")}</table>`;
+
+// The tab-separated text is used when there is any - its quoting keeps line breaks inside
+// cells - otherwise the first HTML table
+const parseClipboardCells = (text: string, html: string): string[][] => {
+  if (text) return parseDelimited(text.replace(/\r?\n$/, ""), "\t", true);
+  const table = html ? new DOMParser().parseFromString(html, "text/html").querySelector("table") : null;
+  if (!table) return [];
+  return Array.from(table.rows).map(row => Array.from(row.cells).map(cell => {
+    cell.querySelectorAll("br").forEach(br => br.replaceWith("\n"));
+    return (cell.textContent || "").replace(/[^\S\n]+/g, " ").trim();
+  }));
+};
+
+// Find and replace - cells are searched by their stored text and, for dates and Yes/No,
+// by the text the grid shows; matches are listed row by row
+const EMPTY_FIND_OPTIONS: FindOptions = {
+  query: "",
+  replacement: "",
+  matchCase: false,
+  wholeCell: false,
+  regex: false,
+  column: "",
+};
+
+// Throws for an invalid regular expression, or one like ^ or a* that matches empty
+// text - it would match every cell and replace in between every character
+const getFindPattern = (options: FindOptions): RegExp => {
+  const source = options.regex ? options.query : escapeRegExp(options.query);
+  const pattern = new RegExp(options.wholeCell ? `^(?:${source})$` : source, options.matchCase ? "g" : "gi");
+  if (pattern.test("")) throw new Error("The pattern matches empty text; it must match at least one character");
+  return pattern;
+};
+
+// The text of a cell that matches, which is also the text a replacement is made in - a
+// date matched as shown ("March 4, 2024") is replaced in that text. null when neither matches
+const getMatchedText = (
+  value: string | number | undefined,
+  type: ColumnType | undefined,
+  pattern: RegExp,
+  locale: string,
+): string | null => {
+  const stored = String(value ?? "");
+  if (stored.search(pattern) !== -1) return stored;
+  if (type !== "date" && type !== "boolean") return null;
+  const shown = formatColumnValue(value, type, locale);
+  return shown.search(pattern) !== -1 ? shown : null;
+};
+
+const findMatches = (
+  data: CertificateData[],
+  columns: string[],
+  columnTypes: ColumnTypes,
+  pattern: RegExp,
+  column: string,
+  locale: string,
+): CellPosition[] => {
+  const searched = columns
+    .map((col, index) => ({ col, index }))
+    .filter(({ col }) => !column || col === column);
+  const matches: CellPosition[] = [];
+  data.forEach((row, rowIndex) => {
+    searched.forEach(({ col, index }) => {
+      if (getMatchedText(row[col], columnTypes[col], pattern, locale) !== null) {
+        matches.push({ row: rowIndex, col: index });
+      }
+    });
+  });
+  return matches;
+};
+
+// Without regex the replacement is literal, so `$` needs no escaping
+const replaceMatches = (text: string, pattern: RegExp, options: FindOptions): string =>
+  options.regex ? text.replace(pattern, options.replacement) : text.replace(pattern, () => options.replacement);
+
+// Custom hook for click outside
+const useClickOutside = (ref: React.RefObject<HTMLElement>, handler: () => void) => {
+  React.useEffect(() => {
+    const listener = (event: MouseEvent | TouchEvent) => {
+      if (!ref.current || ref.current.contains(event.target as Node)) {
+        return;
+      }
+      handler();
+    };
+
+    document.addEventListener('mousedown', listener);
+    document.addEventListener('touchstart', listener);
+
+    return () => {
+      document.removeEventListener('mousedown', listener);
+      document.removeEventListener('touchstart', listener);
+    };
+  }, [ref, handler]);
+};
+
+// Column Header Component
+const ColumnHeader: React.FC<{
+  column: string;
+  index: number;
+  type: ColumnType;
+  hasRules: boolean;
+  onEdit: () => void;
+  onEditRules: () => void;
+  onDelete: () => void;
+  onInsertLeft: () => void;
+  onInsertRight: () => void;
+  menuOpen: boolean;
+  onMenuToggle: (open: boolean) => void;
+}> = ({ column, index, type, hasRules, onEdit, onEditRules, onDelete, onInsertLeft, onInsertRight, menuOpen, onMenuToggle }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useClickOutside(menuRef, () => onMenuToggle(false));
+
+  return (
+    <th className="border border-gray-300 bg-gray-100 sticky top-0 z-20 group" style={{ width: EDITOR_COLUMN_WIDTH }}>
+      <div className="flex items-center justify-between px-3 py-2">
+        <span className="font-medium text-sm truncate" title={column}>
+          {column}
+          <span className="ml-2 px-1.5 py-0.5 bg-gray-200 text-gray-600 rounded text-xs font-normal">
+            {COLUMN_TYPE_LABELS[type]}
+          </span>
+          {hasRules && <ShieldCheck className="w-3.5 h-3.5 ml-1 inline text-purple-600" aria-label="Has validation rules" />}
+        </span>
+        <button
+          onClick={() => onMenuToggle(true)}
+          className="p-1 hover:bg-gray-200 rounded transition"
+          title="Column options"
+        >
+          <ChevronDown className="w-4 h-4" />
+        </button>
+      </div>
+
+      {menuOpen && (
+        <div ref={menuRef} className="absolute top-full left-0 mt-1 bg-white shadow-xl rounded-lg border py-1 z-50 min-w-[180px]">
+          <button
+            onClick={() => { onEdit(); onMenuToggle(false); }}
+            className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2 text-sm"
+          >
+            <Edit2 className="w-4 h-4" /> Edit Column / Type
+          </button>
+          <button
+            onClick={() => { onEditRules(); onMenuToggle(false); }}
+            className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2 text-sm"
+          >
+            <ShieldCheck className="w-4 h-4" /> Validation Rules
+          </button>
+          <button
+            onClick={() => { onInsertLeft(); onMenuToggle(false); }}
+            className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2 text-sm"
+          >
+            <Plus className="w-4 h-4" /> Insert Left
+          </button>
+          <button
+            onClick={() => { onInsertRight(); onMenuToggle(false); }}
+            className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2 text-sm"
+          >
+            <Plus className="w-4 h-4" /> Insert Right
+          </button>
+          <div className="border-t my-1" />
+          <button
+            onClick={() => { onDelete(); onMenuToggle(false); }}
+            className="w-full px-4 py-2 text-left hover:bg-gray-50 text-red-600 flex items-center gap-2 text-sm"
+          >
+            <Trash2 className="w-4 h-4" /> Delete Column
+          </button>
+        </div>
+      )}
+    </th>
+  );
+};
+
+// Input matching a column's type: dates are picked and stored as ISO text, Yes/No is a
+// TRUE/FALSE choice and numbers are stored as numbers
+const ColumnValueInput: React.FC<{
+  type: ColumnType;
+  locale: string;
+  value: string | number | undefined;
+  onChange: (value: string | number) => void;
+  inputRef?: (el: HTMLInputElement | HTMLSelectElement | null) => void;
+  onKeyDown?: (e: React.KeyboardEvent) => void;
+  onBlur?: () => void;
+  placeholder?: string;
+  className: string;
+}> = ({ type, locale, value, onChange, inputRef, onKeyDown, onBlur, placeholder, className }) => {
+  if (type === "boolean") {
+    return (
+      <select
+        ref={inputRef}
+        value={value === undefined ? "" : String(value).toUpperCase()}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={onKeyDown}
+        onBlur={onBlur}
+        className={className}
+      >
+        <option value="">—</option>
+        <option value="TRUE">TRUE</option>
+        <option value="FALSE">FALSE</option>
+      </select>
+    );
+  }
+
+  const date = type === "date" && value !== undefined && value !== "" ? getColumnDate(value, locale) : null;
+  // Dates that don't parse are edited as text so they aren't lost
+  const inputType = type === "date" ? (date || value === undefined || value === "" ? "date" : "text")
+    : type === "number" ? "number"
+    : type === "email" ? "email"
+    : "text";
+
+  return (
+    <input
+      ref={inputRef}
+      type={inputType}
+      placeholder={placeholder}
+      value={date ? toIsoDate(date) : value?.toString() || ''}
+      onChange={(e) => onChange(parseCellInput(e.target.value, type))}
+      onKeyDown={onKeyDown}
+      onBlur={onBlur}
+      className={className}
+    />
+  );
+};
+
+// Row Edit Modal
+const RowEditModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  row: CertificateData;
+  columns: string[];
+  columnTypes: ColumnTypes;
+  locale: string;
+  onSave: (updatedRow: CertificateData) => void;
+}> = ({ isOpen, onClose, row, columns, columnTypes, locale, onSave }) => {
+  const [editedRow, setEditedRow] = useState(row);
+  const inputRefs = useRef<(HTMLInputElement | HTMLSelectElement | null)[]>([]);
+
+  useEffect(() => {
+    setEditedRow(row);
+    if (isOpen) {
+      setTimeout(() => inputRefs.current[0]?.focus(), 100);
+    }
+  }, [isOpen, row]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+      <div className="bg-white rounded-lg p-6 w-[500px] shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">Edit Row</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {columns.map((col, index) => (
+            <div key={col}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {col}
+              </label>
+              <ColumnValueInput
+                inputRef={el => { inputRefs.current[index] = el; }}
+                type={columnTypes[col] || "text"}
+                locale={locale}
+                value={editedRow[col]}
+                onChange={(value) => setEditedRow({ ...editedRow, [col]: value })}
+                className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && index === columns.length - 1) {
+                    onSave(editedRow);
+                    onClose();
+                  } else if (e.key === 'Enter') {
+                    inputRefs.current[index + 1]?.focus();
+                  } else if (e.key === 'Escape') {
+                    onClose();
+                  }
+                }}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={() => {
+              onSave(editedRow);
+              onClose();
+            }}
+            className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+          >
+            Save Changes
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Column Edit Modal
+const ColumnEditModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  columnName: string;
+  columnType: ColumnType;
+  onSave: (newName: string, newType: ColumnType) => void;
+}> = ({ isOpen, onClose, columnName, columnType, onSave }) => {
+  const [newName, setNewName] = useState(columnName);
+  const [newType, setNewType] = useState(columnType);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setNewName(columnName);
+      setNewType(columnType);
+      setTimeout(() => inputRef.current?.focus(), 100);
+    }
+  }, [isOpen, columnName, columnType]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+      <div className="bg-white rounded-lg p-6 w-[400px] shadow-2xl">
+        <h3 className="text-xl font-bold mb-4">Edit Column</h3>
+        
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Column Name
+          </label>
+          <input
+            ref={inputRef}
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                onSave(newName, newType);
+                onClose();
+              } else if (e.key === 'Escape') {
+                onClose();
+              }
+            }}
+          />
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Type
+          </label>
+          <select
+            value={newType}
+            onChange={(e) => setNewType(e.target.value as ColumnType)}
+            className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            {COLUMN_TYPES.map(type => (
+              <option key={type} value={type}>{COLUMN_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => {
+              onSave(newName, newType);
+              onClose();
+            }}
+            className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+          >
+            Save
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Column Rules Modal - numbers are kept as typed until saved, so a field can be cleared
+const ColumnRulesModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  columnName: string;
+  rule: ColumnRule;
+  onSave: (rule: ColumnRule) => void;
+}> = ({ isOpen, onClose, columnName, rule, onSave }) => {
+  const [draft, setDraft] = useState(rule);
+  const [min, setMin] = useState(rule.min?.toString() ?? "");
+  const [max, setMax] = useState(rule.max?.toString() ?? "");
+  const [allowed, setAllowed] = useState((rule.allowedValues || []).join("\n"));
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleSave = () => {
+    const toLimit = (text: string) => text.trim() === "" ? undefined : Number(text);
+    const next: ColumnRule = {
+      required: draft.required || undefined,
+      unique: draft.unique || undefined,
+      email: draft.email || undefined,
+      pattern: draft.pattern?.trim() || undefined,
+      min: toLimit(min),
+      max: toLimit(max),
+      allowedValues: allowed.split(/\r?\n/).map(v => v.trim()).filter(Boolean),
+      minDate: draft.minDate || undefined,
+      maxDate: draft.maxDate || undefined,
+    };
+    if (!next.allowedValues!.length) delete next.allowedValues;
+    if ([next.min, next.max].some(n => n !== undefined && isNaN(n))) {
+      setError("The minimum and maximum must be numbers");
+      return;
+    }
+    const ruleError = getColumnRuleError(next);
+    if (ruleError) {
+      setError(ruleError);
+      return;
+    }
+    onSave(next);
+    onClose();
+  };
+
+  const inputClass = "w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+      <div className="bg-white rounded-lg p-6 w-[450px] max-h-[90vh] overflow-y-auto shadow-2xl">
+        <h3 className="text-xl font-bold mb-1">Validation Rules</h3>
+        <p className="text-sm text-gray-500 mb-4">{columnName}</p>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-4 text-sm">
+            {([["required", "Required"], ["unique", "Unique"], ["email", "Valid email"]] as const).map(([key, label]) => (
+              <label key={key} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!!draft[key]}
+                  onChange={(e) => setDraft({ ...draft, [key]: e.target.checked })}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <label className="block text-sm font-medium text-gray-700">
+            Pattern (regular expression)
+            <input
+              type="text"
+              value={draft.pattern || ""}
+              onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+              placeholder="^[A-Z]{3}-\d{4}$"
+              className={`${inputClass} mt-1 font-mono`}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Minimum
+              <input type="number" value={min} onChange={(e) => setMin(e.target.value)} className={`${inputClass} mt-1`} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Maximum
+              <input type="number" value={max} onChange={(e) => setMax(e.target.value)} className={`${inputClass} mt-1`} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Earliest date
+              <input
+                type="date"
+                value={draft.minDate || ""}
+                onChange={(e) => setDraft({ ...draft, minDate: e.target.value })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Latest date
+              <input
+                type="date"
+                value={draft.maxDate || ""}
+                onChange={(e) => setDraft({ ...draft, maxDate: e.target.value })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+
+          <label className="block text-sm font-medium text-gray-700">
+            Allowed values (one per line)
+            <textarea
+              value={allowed}
+              onChange={(e) => setAllowed(e.target.value)}
+              rows={3}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          {error && (
+            <p className="text-sm text-red-600 flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" /> {error}
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={handleSave}
+            className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+          >
+            Save Rules
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Table Row Component
+const TableRow: React.FC<{
+  row: CertificateData;
+  rowIndex: number;
+  columns: string[];
+  leftPad: number;
+  rightPad: number;
+  columnTypes: ColumnTypes;
+  locale: string;
+  problems?: { [column: string]: string[] };
+  activeColumn?: string;
+  selectedColumns?: string[];
+  matchedColumns?: string[];
+  editing?: { value: string | number | undefined };
+  onEditChange: (value: string | number) => void;
+  onEditKeyDown: (e: React.KeyboardEvent) => void;
+  onEditBlur: () => void;
+  onCellMouseDown: (column: string, e: React.MouseEvent) => void;
+  onCellMouseEnter: (column: string, e: React.MouseEvent) => void;
+  onCellDoubleClick: (column: string) => void;
+  onEditRow: () => void;
+  onDeleteRow: () => void;
+  onDuplicateRow: () => void;
+  onInsertAbove: () => void;
+  onInsertBelow: () => void;
+  menuOpen: boolean;
+  onMenuToggle: (open: boolean) => void;
+}> = ({
+  row,
+  rowIndex,
+  columns,
+  leftPad,
+  rightPad,
+  columnTypes,
+  locale,
+  problems,
+  activeColumn,
+  selectedColumns,
+  matchedColumns,
+  editing,
+  onEditChange,
+  onEditKeyDown,
+  onEditBlur,
+  onCellMouseDown,
+  onCellMouseEnter,
+  onCellDoubleClick,
+  onEditRow,
+  onDeleteRow,
+  onDuplicateRow,
+  onInsertAbove,
+  onInsertBelow,
+  menuOpen,
+  onMenuToggle
+}) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useClickOutside(menuRef, () => onMenuToggle(false));
+
+  return (
+    <tr className="group hover:bg-gray-50" style={{ height: EDITOR_ROW_HEIGHT }}>
+      <td className={`sticky left-0 z-10 border border-gray-300 px-2 py-2 text-center text-sm bg-gray-50 ${problems ? "text-red-600 font-semibold" : "text-gray-500"}`}>
+        {rowIndex + 1}
+      </td>
+      {leftPad > 0 && <td className="p-0" />}
+      
+      {columns.map((col) => editing && activeColumn === col ? (
+        <td key={col} className="border border-gray-300 p-0">
+          <ColumnValueInput
+            inputRef={el => el?.focus()}
+            type={columnTypes[col] || "text"}
+            locale={locale}
+            value={editing.value}
+            onChange={onEditChange}
+            onKeyDown={onEditKeyDown}
+            onBlur={onEditBlur}
+            className="w-full px-2 py-1 text-sm outline-none ring-2 ring-inset ring-blue-500"
+          />
+        </td>
+      ) : (
+        <td
+          key={col}
+          title={problems?.[col]?.join("\n")}
+          onMouseDown={(e) => onCellMouseDown(col, e)}
+          onMouseEnter={(e) => onCellMouseEnter(col, e)}
+          onDoubleClick={() => onCellDoubleClick(col)}
+          className={`border border-gray-300 px-3 py-2 text-sm whitespace-nowrap overflow-hidden text-ellipsis cursor-cell select-none ${columnTypes[col] === "number" ? "text-right tabular-nums" : ""} ${
+            selectedColumns?.includes(col) ? "bg-blue-100"
+              : matchedColumns?.includes(col) ? "bg-yellow-100"
+              : problems?.[col] ? "bg-red-50"
+              : ""
+          } ${problems?.[col] ? "text-red-700" : ""} ${activeColumn === col ? "ring-2 ring-inset ring-blue-500" : ""}`}
+        >
+          {formatColumnValue(row[col], columnTypes[col], locale) || <span className="text-gray-400">—</span>}
+        </td>
+      ))}
+      {rightPad > 0 && <td className="p-0" />}
+
+      <td className="border border-gray-300 px-2 py-1 text-center relative">
+        <div className="flex items-center justify-center gap-1">
+          <button
+            onClick={onEditRow}
+            className="p-1.5 text-blue-600 hover:bg-blue-50 rounded transition"
+            title="Edit row"
+          >
+            <Edit2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onMenuToggle(!menuOpen)}
+            className="p-1.5 text-gray-600 hover:bg-gray-200 rounded transition"
+            title="Row options"
+          >
+            <MoreVertical className="w-4 h-4" />
+          </button>
+        </div>
+
+        {menuOpen && (
+          <div ref={menuRef} className="absolute right-0 mt-1 bg-white shadow-xl rounded-lg border py-1 z-50 min-w-[160px]">
+            <button
+              onClick={() => { onInsertAbove(); onMenuToggle(false); }}
+              className="w-full px-4 py-2 text-left hover:bg-gray-50 text-sm flex items-center gap-2"
+            >
+              <ArrowUp className="w-4 h-4" /> Insert Above
+            </button>
+            <button
+              onClick={() => { onInsertBelow(); onMenuToggle(false); }}
+              className="w-full px-4 py-2 text-left hover:bg-gray-50 text-sm flex items-center gap-2"
+            >
+              <ArrowDown className="w-4 h-4" /> Insert Below
+            </button>
+            <button
+              onClick={() => { onDuplicateRow(); onMenuToggle(false); }}
+              className="w-full px-4 py-2 text-left hover:bg-gray-50 text-sm flex items-center gap-2"
+            >
+              <Copy className="w-4 h-4" /> Duplicate Row
+            </button>
+            <div className="border-t my-1" />
+            <button
+              onClick={() => { onDeleteRow(); onMenuToggle(false); }}
+              className="w-full px-4 py-2 text-left hover:bg-gray-50 text-red-600 text-sm flex items-center gap-2"
+            >
+              <Trash2 className="w-4 h-4" /> Delete Row
+            </button>
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+};
+
+// Empty Row Component
+const EmptyRow: React.FC<{
+  columns: string[];
+  leftPad: number;
+  rightPad: number;
+  columnTypes: ColumnTypes;
+  locale: string;
+  onAdd: (newRow: CertificateData) => void;
+}> = ({ columns, leftPad, rightPad, columnTypes, locale, onAdd }) => {
+  const [newRow, setNewRow] = useState<CertificateData>({});
+  const inputRefs = useRef<(HTMLInputElement | HTMLSelectElement | null)[]>([]);
+
+  const handleAdd = () => {
+    if (Object.keys(newRow).length > 0) {
+      onAdd(newRow);
+      setNewRow({});
+      setTimeout(() => inputRefs.current[0]?.focus(), 0);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (e.key === 'Enter') {
+      if (index === columns.length - 1) {
+        handleAdd();
+      } else {
+        inputRefs.current[index + 1]?.focus();
+      }
+    } else if (e.key === 'Escape') {
+      setNewRow({});
+      inputRefs.current[0]?.focus();
+    }
+  };
+
+  return (
+    <tr className="bg-blue-50 group">
+      <td className="sticky left-0 z-10 border border-gray-300 px-2 py-1 text-center text-sm text-gray-500 bg-gray-50">
+        <Plus className="w-4 h-4 inline text-green-600" />
+      </td>
+      {leftPad > 0 && <td className="p-0" />}
+      {columns.map((col, index) => (
+        <td key={col} className="border border-gray-300 p-1">
+          <ColumnValueInput
+            inputRef={el => { inputRefs.current[index] = el; }}
+            type={columnTypes[col] || "text"}
+            locale={locale}
+            placeholder={`Enter ${col}`}
+            value={newRow[col]}
+            onChange={(value) => setNewRow({ ...newRow, [col]: value })}
+            onKeyDown={(e) => handleKeyDown(e, index)}
+            className="w-full px-2 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </td>
+      ))}
+      {rightPad > 0 && <td className="p-0" />}
+      <td className="border border-gray-300 px-2 py-1 text-center">
+        <button
+          onClick={handleAdd}
+          disabled={Object.keys(newRow).length === 0}
+          className={`p-1.5 rounded-full transition ${
+            Object.keys(newRow).length > 0
+              ? 'text-green-600 hover:bg-green-100'
+              : 'text-gray-400 cursor-not-allowed'
+          }`}
+          title="Add row"
+        >
+          <Check className="w-5 h-5" />
+        </button>
+      </td>
+    </tr>
+  );
+};
+
+// Main Excel Editor Modal
+const ExcelEditorModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  data: CertificateData[];
+  columns: string[];
+  columnTypes: ColumnTypes;
+  columnRules: ColumnRules;
+  excludeInvalid: boolean;
+  onExcludeInvalidChange: (exclude: boolean) => void;
+  locale: string;
+  fileName: string;
+  hasWriteAccess: boolean;
+  onRequestWriteAccess: () => void;
+  // toFile also writes the data back to the sheets of the uploaded file
+  onSave: (data: CertificateData[], columns: string[], columnTypes: ColumnTypes, columnRules: ColumnRules, toFile: boolean) => void;
+}> = ({
+  isOpen,
+  onClose,
+  data,
+  columns,
+  columnTypes,
+  columnRules,
+  excludeInvalid,
+  onExcludeInvalidChange,
+  locale,
+  fileName,
+  hasWriteAccess,
+  onRequestWriteAccess,
+  onSave
+}) => {
+  const [localData, setLocalData] = useState(data);
+  const [localColumns, setLocalColumns] = useState(columns);
+  const [localTypes, setLocalTypes] = useState(columnTypes);
+  const [localRules, setLocalRules] = useState(columnRules);
+  const [history, setHistory] = useState<EditHistory>({ past: [], future: [] });
+  const [showProblems, setShowProblems] = useState(false);
+  const [activeCell, setActiveCell] = useState<CellPosition | null>(null);
+  const [selectionAnchor, setSelectionAnchor] = useState<CellPosition | null>(null);
+  const [editingCell, setEditingCell] = useState<(CellPosition & { value: string | number | undefined }) | null>(null);
+  const cancelEditRef = useRef(false);
+  const [showFind, setShowFind] = useState(false);
+  const [findOptions, setFindOptions] = useState<FindOptions>(EMPTY_FIND_OPTIONS);
+  const [matchIndex, setMatchIndex] = useState(-1);
+  const findInputRef = useRef<HTMLInputElement>(null);
+  const [viewport, setViewport] = useState({ top: 0, left: 0, height: 600, width: 1000 });
+  const gridRef = useRef<HTMLDivElement>(null);
+  
+  // Modal states
+  const [editingRow, setEditingRow] = useState<{ index: number; data: CertificateData } | null>(null);
+  const [editingColumn, setEditingColumn] = useState<{ index: number; name: string } | null>(null);
+  const [editingRules, setEditingRules] = useState<string | null>(null);
+  const [columnMenu, setColumnMenu] = useState<{ col: number; open: boolean } | null>(null);
+  const [rowMenu, setRowMenu] = useState<{ row: number; open: boolean } | null>(null);
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setLocalData(data);
+      setLocalColumns(columns);
+      setLocalTypes(columnTypes);
+      setLocalRules(columnRules);
+      setHistory({ past: [], future: [] });
+      setActiveCell(null);
+      setSelectionAnchor(null);
+      setEditingCell(null);
+      setMatchIndex(-1);
+      setViewport(prev => ({ ...prev, top: 0, left: 0 }));
+    }
+  }, [isOpen, data, columns, columnTypes, columnRules]);
+
+  // The grid's size decides how many rows and columns are rendered
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!isOpen || !grid) return;
+    const observer = new ResizeObserver(() => {
+      setViewport(prev => ({ ...prev, height: grid.clientHeight, width: grid.clientWidth }));
+    });
+    observer.observe(grid);
+    return () => observer.disconnect();
+  }, [isOpen]);
+
+  const violations = useMemo(
+    () => validateRecords(localData, localColumns, localRules, localTypes, locale),
+    [localData, localColumns, localRules, localTypes, locale],
+  );
+  // Messages by row, then column, for highlighting the cells
+  const problemsByRow = useMemo(() => {
+    const byRow: { [row: number]: { [column: string]: string[] } } = {};
+    violations.forEach(({ row, column, message }) => {
+      const cells = byRow[row] = byRow[row] || {};
+      (cells[column] = cells[column] || []).push(message);
+    });
+    return byRow;
+  }, [violations]);
+
+  const findResult = useMemo(() => {
+    if (!showFind || !findOptions.query) return { matches: [], error: "" };
+    try {
+      const pattern = getFindPattern(findOptions);
+      const matches = findMatches(localData, localColumns, localTypes, pattern, findOptions.column, locale);
+      return { pattern, matches, error: "" };
+    } catch (error) {
+      return { matches: [], error: getErrorMessage(error) };
+    }
+  }, [showFind, findOptions, localData, localColumns, localTypes, locale]);
+  // Matched columns by row, for highlighting the cells
+  const matchesByRow = useMemo(() => {
+    const byRow: { [row: number]: string[] } = {};
+    findResult.matches.forEach(({ row, col }) => {
+      (byRow[row] = byRow[row] || []).push(localColumns[col]);
+    });
+    return byRow;
+  }, [findResult, localColumns]);
+
+  const setLayout = (layout: ColumnLayout) => {
+    setLocalColumns(layout.columns);
+    setLocalTypes(layout.columnTypes);
+    setLocalRules(layout.columnRules);
+  };
+
+  // Applies an edit and records it for undo
+  const commit = (patch: EditPatch) => {
+    const layout = { columns: localColumns, columnTypes: localTypes, columnRules: localRules };
+    const result = applyEditPatch(localData, layout, patch, "redo");
+    setLocalData(result.data);
+    setLayout(result.layout);
+    setHistory(prev => ({
+      past: [...prev.past, patch].slice(-EDIT_HISTORY_LIMIT),
+      future: []
+    }));
+  };
+
+  const undo = () => {
+    if (history.past.length === 0) return;
+    const patch = history.past[history.past.length - 1];
+    const layout = { columns: localColumns, columnTypes: localTypes, columnRules: localRules };
+    const result = applyEditPatch(localData, layout, patch, "undo");
+    setHistory(prev => ({
+      past: prev.past.slice(0, -1),
+      future: [patch, ...prev.future],
+    }));
+    setLocalData(result.data);
+    setLayout(result.layout);
+  };
+
+  const redo = () => {
+    if (history.future.length === 0) return;
+    const patch = history.future[0];
+    const layout = { columns: localColumns, columnTypes: localTypes, columnRules: localRules };
+    const result = applyEditPatch(localData, layout, patch, "redo");
+    setHistory(prev => ({
+      past: [...prev.past, patch],
+      future: prev.future.slice(1),
+    }));
+    setLocalData(result.data);
+    setLayout(result.layout);
+  };
+
+  const emptyRow = (): CertificateData => Object.fromEntries(localColumns.map(col => [col, '']));
+
+  // Writes values as one undo step; values below the last row add rows
+  const commitValues = (changes: CellChange[]) => {
+    const changed = changes.filter(change =>
+      change.row >= localData.length || String(change.before ?? "") !== String(change.after ?? ""));
+    if (changed.length === 0) return;
+    if (changed.every(change => change.row < localData.length)) {
+      commit({ kind: "cells", changes: changed });
+      return;
+    }
+
+    const start = changed.reduce((min, change) => Math.min(min, change.row), Infinity);
+    const end = changed.reduce((max, change) => Math.max(max, change.row), 0) + 1;
+    const removed = localData.slice(start);
+    const added = Array.from({ length: end - start }, (_, i) => removed[i] || emptyRow());
+    changed.forEach(change => {
+      added[change.row - start] = setCellValue(added[change.row - start], change.column, change.after);
+    });
+    commit({ kind: "rows", start, removed, added });
+  };
+
+  // The layout after a change, for column patches
+  const withLayout = (changes: Partial<ColumnLayout>): ColumnLayout => ({
+    columns: localColumns,
+    columnTypes: localTypes,
+    columnRules: localRules,
+    ...changes,
+  });
+
+  const handleAddRow = () => {
+    commit({ kind: "rows", start: localData.length, removed: [], added: [emptyRow()] });
+  };
+
+  const handleAddRowWithData = (newRow: CertificateData) => {
+    commit({ kind: "rows", start: localData.length, removed: [], added: [newRow] });
+  };
+
+  const handleDeleteRow = (rowIndex: number) => {
+    if (confirm('Delete this row?')) {
+      commit({ kind: "rows", start: rowIndex, removed: [localData[rowIndex]], added: [] });
+    }
+  };
+
+  const handleDuplicateRow = (rowIndex: number) => {
+    commit({ kind: "rows", start: rowIndex + 1, removed: [], added: [{ ...localData[rowIndex] }] });
+  };
+
+  const handleInsertRow = (rowIndex: number, position: 'above' | 'below') => {
+    const insertIndex = position === 'above' ? rowIndex : rowIndex + 1;
+    commit({ kind: "rows", start: insertIndex, removed: [], added: [emptyRow()] });
+  };
+
+  const insertColumn = (insertIndex: number) => {
+    const newColName = prompt('Enter new column name:');
+    if (!newColName || localColumns.includes(newColName)) return;
+
+    commit({
+      kind: "columns",
+      before: withLayout({}),
+      after: withLayout({
+        columns: [...localColumns.slice(0, insertIndex), newColName, ...localColumns.slice(insertIndex)],
+        columnTypes: { ...localTypes, [newColName]: inferColumnType(newColName, []) },
+      }),
+      added: newColName,
+    });
+  };
+
+  const handleAddColumn = () => insertColumn(localColumns.length);
+
+  const handleInsertColumn = (colIndex: number, position: 'left' | 'right') =>
+    insertColumn(position === 'left' ? colIndex : colIndex + 1);
+
+  const handleDeleteColumn = (colIndex: number) => {
+    if (!confirm(`Delete column "${localColumns[colIndex]}"?`)) return;
+    
+    const colToDelete = localColumns[colIndex];
+    const without = <T,>(map: { [column: string]: T }) =>
+      Object.fromEntries(Object.entries(map).filter(([col]) => col !== colToDelete));
+    commit({
+      kind: "columns",
+      before: withLayout({}),
+      after: {
+        columns: localColumns.filter((_, i) => i !== colIndex),
+        columnTypes: without(localTypes),
+        columnRules: without(localRules),
+      },
+      removed: { column: colToDelete, values: localData.map(row => row[colToDelete]) },
+    });
+  };
+
+  const handleEditRow = (rowIndex: number) => {
+    setEditingRow({ index: rowIndex, data: { ...localData[rowIndex] } });
+  };
+
+  const handleSaveRow = (updatedRow: CertificateData) => {
+    const index = editingRow!.index;
+    commit({ kind: "rows", start: index, removed: [localData[index]], added: [updatedRow] });
+    setEditingRow(null);
+  };
+
+  const handleEditColumn = (colIndex: number) => {
+    setEditingColumn({ index: colIndex, name: localColumns[colIndex] });
+  };
+
+  // The column keeps its type and rules when renamed
+  const handleSaveColumn = (newName: string, newType: ColumnType) => {
+    const oldName = localColumns[editingColumn!.index];
+    setEditingColumn(null);
+    if (!newName || (newName !== oldName && localColumns.includes(newName))) return;
+    if (newName === oldName) {
+      if (newType !== localTypes[oldName]) {
+        commit({
+          kind: "columns",
+          before: withLayout({}),
+          after: withLayout({ columnTypes: { ...localTypes, [oldName]: newType } }),
+        });
+      }
+      return;
+    }
+
+    const newColumns = [...localColumns];
+    newColumns[editingColumn!.index] = newName;
+    const newTypes = { ...localTypes, [newName]: newType };
+    delete newTypes[oldName];
+    const newRules = { ...localRules };
+    if (newRules[oldName]) {
+      newRules[newName] = newRules[oldName];
+      delete newRules[oldName];
+    }
+
+    commit({
+      kind: "columns",
+      before: withLayout({}),
+      after: { columns: newColumns, columnTypes: newTypes, columnRules: newRules },
+      renamed: { from: oldName, to: newName },
+    });
+  };
+
+  const handleSaveRules = (column: string, rule: ColumnRule) => {
+    const newRules = { ...localRules };
+    if (hasColumnRule(rule)) newRules[column] = rule;
+    else delete newRules[column];
+    commit({ kind: "columns", before: withLayout({}), after: withLayout({ columnRules: newRules }) });
+  };
+
+  const selection = activeCell ? getCellRange(selectionAnchor || activeCell, activeCell) : null;
+
+  // Each row of the selection, with the values as they go on the clipboard
+  const getSelectedCells = (range: CellRange): string[][] => {
+    const columns = localColumns.slice(range.start.col, range.end.col + 1);
+    return localData
+      .slice(range.start.row, range.end.row + 1)
+      .map(row => columns.map(col => cellToClipboardText(row[col], localTypes[col], locale)));
+  };
+
+  // Scrolls just enough to show a cell below the sticky header row and left of the row numbers
+  const revealCell = (cell: CellPosition) => {
+    const grid = gridRef.current;
+    if (!grid) return;
+    const headerHeight = grid.querySelector("thead")?.offsetHeight || EDITOR_ROW_HEIGHT;
+    const top = cell.row * EDITOR_ROW_HEIGHT;
+    const left = cell.col * EDITOR_COLUMN_WIDTH;
+    const bottom = headerHeight + top + EDITOR_ROW_HEIGHT - grid.clientHeight;
+    const right = EDITOR_ROW_NUMBER_WIDTH + left + EDITOR_COLUMN_WIDTH - grid.clientWidth;
+    grid.scrollTo({
+      top: top < grid.scrollTop ? top : Math.max(grid.scrollTop, bottom),
+      left: left < grid.scrollLeft ? left : Math.max(grid.scrollLeft, right),
+    });
+  };
+
+  const selectCell = (cell: CellPosition, extend = false) => {
+    setActiveCell(cell);
+    if (!extend || !selectionAnchor) setSelectionAnchor(cell);
+    revealCell(cell);
+  };
+
+  const moveActiveCell = (rowStep: number, colStep: number, extend = false) => {
+    if (!activeCell || localData.length === 0) return;
+    selectCell({
+      row: Math.min(Math.max(activeCell.row + rowStep, 0), localData.length - 1),
+      col: Math.min(Math.max(activeCell.col + colStep, 0), localColumns.length - 1),
+    }, extend);
+  };
+
+  // A typed character replaces the value, except in dates and Yes/No, which keep their picker
+  const startEditing = (cell: CellPosition, typed?: string) => {
+    const column = localColumns[cell.col];
+    const type = localTypes[column] || "text";
+    const value = typed !== undefined && type !== "date" && type !== "boolean"
+      ? parseCellInput(typed, type)
+      : localData[cell.row]?.[column];
+    selectCell(cell);
+    setEditingCell({ ...cell, value });
+  };
+
+  // Editing ends when the cell's input loses focus - Escape asks for the value to be dropped
+  const finishEditing = () => {
+    if (!editingCell) return;
+    setEditingCell(null);
+    if (cancelEditRef.current) {
+      cancelEditRef.current = false;
+      return;
+    }
+    const { row, col, value } = editingCell;
+    const column = localColumns[col];
+    commitValues([{ row, column, before: localData[row]?.[column], after: value }]);
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent) => {
+    // The input's own undo and copy/paste apply while typing
+    e.stopPropagation();
+    const step = e.key === "Enter" ? [e.shiftKey ? -1 : 1, 0]
+      : e.key === "Tab" ? [0, e.shiftKey ? -1 : 1]
+      : null;
+    if (e.key === "Escape") cancelEditRef.current = true;
+    else if (!step) return;
+    e.preventDefault();
+    gridRef.current?.focus({ preventScroll: true });
+    if (step) moveActiveCell(step[0], step[1]);
+  };
+
+  const handleCellMouseDown = (rowIndex: number, column: string, e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    // Keeps the browser from selecting text while a range is dragged
+    e.preventDefault();
+    gridRef.current?.focus({ preventScroll: true });
+    selectCell({ row: rowIndex, col: localColumns.indexOf(column) }, e.shiftKey);
+  };
+
+  const handleCellMouseEnter = (rowIndex: number, column: string, e: React.MouseEvent) => {
+    if (e.buttons !== 1 || !selectionAnchor) return;
+    setActiveCell({ row: rowIndex, col: localColumns.indexOf(column) });
+  };
+
+  const forEachSelectedCell = (range: CellRange, fn: (row: number, column: string) => void) => {
+    const columns = localColumns.slice(range.start.col, range.end.col + 1);
+    for (let row = range.start.row; row <= Math.min(range.end.row, localData.length - 1); row++) {
+      columns.forEach(column => fn(row, column));
+    }
+  };
+
+  const clearSelection = () => {
+    if (!selection) return;
+    const changes: CellChange[] = [];
+    forEachSelectedCell(selection, (row, column) => {
+      changes.push({ row, column, before: localData[row][column], after: "" });
+    });
+    commitValues(changes);
+  };
+
+  // Copies the top row of the selection into the rows below it; a single row is
+  // filled from the row above, as in spreadsheets
+  const fillDown = () => {
+    if (!selection) return;
+    const sourceRow = selection.end.row > selection.start.row ? selection.start.row : selection.start.row - 1;
+    const source = localData[sourceRow];
+    if (!source) return;
+    const changes: CellChange[] = [];
+    forEachSelectedCell({ start: { ...selection.start, row: sourceRow + 1 }, end: selection.end }, (row, column) => {
+      changes.push({ row, column, before: localData[row][column], after: source[column] });
+    });
+    commitValues(changes);
+  };
+
+  // Pastes from the top-left of the selection, adding rows as needed; columns past the last
+  // are dropped. A single copied value fills the whole selection
+  const pasteCells = (cells: string[][]) => {
+    if (!selection || cells.length === 0) return;
+    const single = cells.length === 1 && cells[0].length === 1;
+    const height = single ? selection.end.row - selection.start.row + 1 : cells.length;
+    const width = single ? selection.end.col - selection.start.col + 1 : Math.max(...cells.map(row => row.length));
+    const columns = localColumns.slice(selection.start.col, selection.start.col + width);
+    const changes: CellChange[] = [];
+    for (let r = 0; r < height; r++) {
+      const row = selection.start.row + r;
+      columns.forEach((column, c) => {
+        const text = single ? cells[0][0] : cells[r][c];
+        if (text === undefined) return;
+        changes.push({ row, column, before: localData[row]?.[column], after: parseCellInput(text, localTypes[column]) });
+      });
+    }
+    commitValues(changes);
+    const end = { row: selection.start.row + height - 1, col: selection.start.col + columns.length - 1 };
+    setSelectionAnchor(selection.start);
+    setActiveCell(end);
+    revealCell(end);
+  };
+
+  const handleCopy = (e: React.ClipboardEvent, cut = false) => {
+    if (e.target !== e.currentTarget || !selection) return;
+    e.preventDefault();
+    const cells = getSelectedCells(selection);
+    e.clipboardData.setData("text/plain", cellsToTsv(cells));
+    e.clipboardData.setData("text/html", cellsToHtml(cells));
+    if (cut) clearSelection();
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (e.target !== e.currentTarget) return;
+    e.preventDefault();
+    pasteCells(parseClipboardCells(e.clipboardData.getData("text/plain"), e.clipboardData.getData("text/html")));
+  };
+
+  // Keys for the grid itself; inputs inside it (the new row, menus) handle their own
+  const handleGridKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || localColumns.length === 0) return;
+    const ctrl = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+    if (ctrl && key === "a" && localData.length > 0) {
+      e.preventDefault();
+      setSelectionAnchor({ row: 0, col: 0 });
+      setActiveCell({ row: localData.length - 1, col: localColumns.length - 1 });
+      return;
+    }
+    if (ctrl && key === "d") {
+      e.preventDefault();
+      fillDown();
+      return;
+    }
+    if (ctrl || e.altKey) return;
+    if (!activeCell) {
+      if (e.key.startsWith("Arrow") && localData.length > 0) {
+        e.preventDefault();
+        selectCell({ row: 0, col: 0 });
+      }
+      return;
+    }
+
+    const arrows: { [key: string]: [number, number] } = {
+      ArrowUp: [-1, 0],
+      ArrowDown: [1, 0],
+      ArrowLeft: [0, -1],
+      ArrowRight: [0, 1],
+    };
+    if (arrows[e.key]) {
+      e.preventDefault();
+      moveActiveCell(arrows[e.key][0], arrows[e.key][1], e.shiftKey);
+    } else if (e.key === "Tab") {
+      e.preventDefault();
+      moveActiveCell(0, e.shiftKey ? -1 : 1);
+    } else if (e.key === "Enter" || e.key === "F2") {
+      e.preventDefault();
+      startEditing(activeCell);
+    } else if (e.key === "Delete" || e.key === "Backspace") {
+      e.preventDefault();
+      clearSelection();
+    } else if (e.key === "Escape") {
+      setSelectionAnchor(activeCell);
+    } else if (e.key.length === 1) {
+      e.preventDefault();
+      startEditing(activeCell, e.key);
+    }
+  };
+
+  const updateFind = (changes: Partial<FindOptions>) => {
+    setFindOptions(prev => ({ ...prev, ...changes }));
+    setMatchIndex(-1);
+  };
+
+  const goToMatch = (index: number) => {
+    const { matches } = findResult;
+    if (matches.length === 0) return;
+    const next = (index + matches.length) % matches.length;
+    setMatchIndex(next);
+    selectCell(matches[next]);
+  };
+
+  const replaceCell = (value: string | number | undefined, column: string, pattern: RegExp): string | number => {
+    const text = getMatchedText(value, localTypes[column], pattern, locale) ?? String(value ?? "");
+    return parseCellInput(replaceMatches(text, pattern, findOptions), localTypes[column]);
+  };
+
+  // Replaces the current match and moves on to the next one
+  const replaceCurrent = () => {
+    const { matches, pattern } = findResult;
+    if (!pattern || matches.length === 0) return;
+    if (matchIndex < 0) {
+      goToMatch(0);
+      return;
+    }
+    const current = matches[matchIndex % matches.length];
+    const column = localColumns[current.col];
+    const before = localData[current.row][column];
+    const after = replaceCell(before, column, pattern);
+    commitValues([{ row: current.row, column, before, after }]);
+    // A cell that no longer matches drops out of the list, so the next match takes its index
+    const stillMatches = getMatchedText(after, localTypes[column], pattern, locale) !== null;
+    if (matches.length > 1) {
+      const next = (matchIndex + 1) % matches.length;
+      setMatchIndex(stillMatches || next === 0 ? next : matchIndex);
+      selectCell(matches[next]);
+    }
+  };
+
+  // All replacements are one undo step
+  const replaceAll = () => {
+    const { matches, pattern } = findResult;
+    if (!pattern || matches.length === 0) return;
+    commitValues(matches.map(({ row, col }) => {
+      const column = localColumns[col];
+      const before = localData[row][column];
+      return { row, column, before, after: replaceCell(before, column, pattern) };
+    }));
+    setMatchIndex(-1);
+    console.log(`🔁 Replaced ${matches.length} cell(s)`);
+  };
+
+  // Centres the problem's cell in the grid and outlines it; rows out of view aren't
+  // rendered, so the position is worked out from the fixed sizes
+  const jumpToProblem = (violation: RuleViolation) => {
+    const col = localColumns.indexOf(violation.column);
+    setActiveCell({ row: violation.row, col });
+    setSelectionAnchor({ row: violation.row, col });
+    const grid = gridRef.current;
+    if (!grid) return;
+    const left = col * EDITOR_COLUMN_WIDTH;
+    grid.scrollTo({
+      top: Math.max(0, violation.row * EDITOR_ROW_HEIGHT - grid.clientHeight / 2),
+      left: left < grid.scrollLeft || left + EDITOR_COLUMN_WIDTH > grid.scrollLeft + grid.clientWidth - EDITOR_ROW_NUMBER_WIDTH
+        ? Math.max(0, left - grid.clientWidth / 2)
+        : grid.scrollLeft,
+      behavior: "smooth",
+    });
+  };
+
+  const handleSave = (toFile = false) => {
+    onSave(localData, localColumns, localTypes, localRules, toFile);
+    onClose();
+  };
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isOpen) return;
+      if (e.ctrlKey || e.metaKey) {
+        if (e.key === 'z' && !e.shiftKey) {
+          e.preventDefault();
+          undo();
+        }
+        if (e.key === 'y' || (e.key === 'z' && e.shiftKey)) {
+          e.preventDefault();
+          redo();
+        }
+        if (e.key === 'f' || e.key === 'h') {
+          e.preventDefault();
+          setShowFind(true);
+          findInputRef.current?.select();
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, history]);
+
+  if (!isOpen) return null;
+
+  const rowRange = getVisibleRange(viewport.top, viewport.height, EDITOR_ROW_HEIGHT, localData.length, EDITOR_OVERSCAN);
+  const colRange = getVisibleRange(viewport.left, viewport.width, EDITOR_COLUMN_WIDTH, localColumns.length, 2);
+  const visibleColumns = localColumns.slice(colRange.start, colRange.end);
+  const leftPad = colRange.start * EDITOR_COLUMN_WIDTH;
+  const rightPad = (localColumns.length - colRange.end) * EDITOR_COLUMN_WIDTH;
+  const gridColumnCount = visibleColumns.length + 2 + (leftPad > 0 ? 1 : 0) + (rightPad > 0 ? 1 : 0);
+  const multiCellSelection = selection !== null
+    && (selection.start.row !== selection.end.row || selection.start.col !== selection.end.col);
+  const selectedColumns = selection ? localColumns.slice(selection.start.col, selection.end.col + 1) : [];
+  const spacerRow = (height: number) => height > 0 && (
+    <tr style={{ height }}>
+      <td colSpan={gridColumnCount} className="p-0" />
+    </tr>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-6xl max-h-[90vh] flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="flex justify-between items-center p-4 border-b">
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet className="w-6 h-6 text-blue-600" />
+            <div>
+              <h3 className="text-xl font-bold">Edit Excel Data</h3>
+              <p className="text-sm text-gray-500">{fileName} • {localData.length} rows • {localColumns.length} columns</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex items-center gap-2 p-2 border-b bg-gray-50">
           <button
-            onClick={() => { onInsertRight(); onMenuToggle(false); }}
-            className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2 text-sm"
+            onClick={undo}
+            disabled={history.past.length === 0}
+            className="p-2 rounded hover:bg-gray-200 disabled:opacity-30 disabled:hover:bg-transparent"
+            title="Undo (Ctrl+Z)"
           >
-            <Plus className="w-4 h-4" /> Insert Right
+            <RotateCcw className="w-5 h-5" />
           </button>
-          <div className="border-t my-1" />
           <button
-            onClick={() => { onDelete(); onMenuToggle(false); }}
-            className="w-full px-4 py-2 text-left hover:bg-gray-50 text-red-600 flex items-center gap-2 text-sm"
+            onClick={redo}
+            disabled={history.future.length === 0}
+            className="p-2 rounded hover:bg-gray-200 disabled:opacity-30 disabled:hover:bg-transparent"
+            title="Redo (Ctrl+Y)"
+          >
+            <RotateCw className="w-5 h-5" />
+          </button>
+          <div className="w-px h-6 bg-gray-300 mx-1" />
+          <button
+            onClick={handleAddRow}
+            className="flex items-center gap-1 px-3 py-1.5 bg-green-600 text-white rounded hover:bg-green-700 text-sm"
+          >
+            <Plus className="w-4 h-4" /> Add Row
+          </button>
+          <button
+            onClick={handleAddColumn}
+            className="flex items-center gap-1 px-3 py-1.5 bg-purple-600 text-white rounded hover:bg-purple-700 text-sm"
+          >
+            <Plus className="w-4 h-4" /> Add Column
+          </button>
+          <button
+            onClick={fillDown}
+            disabled={!selection}
+            className="flex items-center gap-1 px-3 py-1.5 rounded text-sm text-gray-600 hover:bg-gray-200 disabled:opacity-30 disabled:hover:bg-transparent"
+            title="Fill the selected cells with the value above (Ctrl+D)"
+          >
+            <ArrowDown className="w-4 h-4" /> Fill Down
+          </button>
+          <button
+            onClick={() => setShowFind(!showFind)}
+            className={`flex items-center gap-1 px-3 py-1.5 rounded text-sm ${showFind ? "bg-blue-100 text-blue-700" : "text-gray-600 hover:bg-gray-200"}`}
+            title="Find and replace (Ctrl+F)"
+          >
+            <Search className="w-4 h-4" /> Find
+          </button>
+          <button
+            onClick={() => setShowProblems(!showProblems)}
+            className={`flex items-center gap-1 px-3 py-1.5 rounded text-sm border ${
+              violations.length > 0 ? "border-red-300 text-red-700 bg-red-50 hover:bg-red-100" : "text-gray-600 hover:bg-gray-200"
+            }`}
+            title="Cells breaking the column rules"
+          >
+            <AlertCircle className="w-4 h-4" /> Problems ({violations.length})
+          </button>
+          <div className="flex-1" />
+          <div className="text-xs text-gray-500 flex items-center gap-3">
+            <span className="flex items-center gap-1">
+              <Edit2 className="w-4 h-4" /> Double-click or type to edit
+            </span>
+            <span className="flex items-center gap-1">
+              <kbd className="px-1.5 py-0.5 bg-gray-200 rounded text-xs">Ctrl+Z</kbd> undo
+            </span>
+            <span className="flex items-center gap-1">
+              <kbd className="px-1.5 py-0.5 bg-gray-200 rounded text-xs">Ctrl+Y</kbd> redo
+            </span>
+          </div>
+          <button
+            onClick={() => handleSave()}
+            className="flex items-center gap-1 px-4 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700"
+            title="Keep the changes in the app"
+          >
+            <Save className="w-4 h-4" /> Save
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            className="flex items-center gap-1 px-4 py-1.5 bg-green-600 text-white rounded hover:bg-green-700"
+            title={hasWriteAccess ? `Write the changes into ${fileName}` : "Download the workbook with the changes"}
           >
-            <Trash2 className="w-4 h-4" /> Delete Column
+            <Download className="w-4 h-4" /> {hasWriteAccess ? "Save to File" : "Download File"}
           </button>
         </div>
-      )}
-    </th>
-  );
-};
-
-// Row Edit Modal
-const RowEditModal: React.FC<{
-  isOpen: boolean;
-  onClose: () => void;
-  row: CertificateData;
-  columns: string[];
-  onSave: (updatedRow: CertificateData) => void;
-}> = ({ isOpen, onClose, row, columns, onSave }) => {
-  const [editedRow, setEditedRow] = useState(row);
-  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
-
-  useEffect(() => {
-    setEditedRow(row);
-    if (isOpen) {
-      setTimeout(() => inputRefs.current[0]?.focus(), 100);
-    }
-  }, [isOpen, row]);
 
-  if (!isOpen) return null;
+        {/* Find and Replace */}
+        {showFind && (
+          <div
+            className="flex flex-wrap items-center gap-2 px-3 py-2 border-b bg-white text-sm"
+            onKeyDown={(e) => {
+              // Undo and the other shortcuts belong to the text fields here
+              e.stopPropagation();
+              if (e.key === 'Escape') setShowFind(false);
+            }}
+          >
+            <Search className="w-4 h-4 text-gray-400" />
+            <input
+              ref={findInputRef}
+              autoFocus
+              value={findOptions.query}
+              onChange={(e) => updateFind({ query: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') goToMatch(e.shiftKey ? matchIndex - 1 : matchIndex + 1);
+              }}
+              placeholder="Find"
+              className="w-48 px-2 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              value={findOptions.replacement}
+              onChange={(e) => setFindOptions({ ...findOptions, replacement: e.target.value })}
+              placeholder={findOptions.regex ? "Replace with ($1 for groups)" : "Replace with"}
+              className="w-48 px-2 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={findOptions.column}
+              onChange={(e) => updateFind({ column: e.target.value })}
+              className="px-2 py-1 border rounded"
+            >
+              <option value="">All columns</option>
+              {localColumns.map(col => <option key={col} value={col}>{col}</option>)}
+            </select>
+            <label className="flex items-center gap-1 text-gray-600">
+              <input type="checkbox" checked={findOptions.matchCase} onChange={(e) => updateFind({ matchCase: e.target.checked })} />
+              Match case
+            </label>
+            <label className="flex items-center gap-1 text-gray-600">
+              <input type="checkbox" checked={findOptions.wholeCell} onChange={(e) => updateFind({ wholeCell: e.target.checked })} />
+              Whole cell
+            </label>
+            <label className="flex items-center gap-1 text-gray-600">
+              <input type="checkbox" checked={findOptions.regex} onChange={(e) => updateFind({ regex: e.target.checked })} />
+              Regex
+            </label>
+            <span className={`min-w-[90px] ${findResult.error ? "text-red-600" : "text-gray-500"}`} title={findResult.error}>
+              {findResult.error
+                ? "Invalid pattern"
+                : !findOptions.query
+                  ? ""
+                  : findResult.matches.length === 0
+                    ? "No matches"
+                    : matchIndex < 0
+                      ? `${findResult.matches.length} match(es)`
+                      : `${matchIndex % findResult.matches.length + 1} of ${findResult.matches.length}`}
+            </span>
+            <button
+              onClick={() => goToMatch(matchIndex - 1)}
+              disabled={findResult.matches.length === 0}
+              className="p-1 rounded hover:bg-gray-200 disabled:opacity-30"
+              title="Previous match (Shift+Enter)"
+            >
+              <ArrowUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => goToMatch(matchIndex + 1)}
+              disabled={findResult.matches.length === 0}
+              className="p-1 rounded hover:bg-gray-200 disabled:opacity-30"
+              title="Next match (Enter)"
+            >
+              <ArrowDown className="w-4 h-4" />
+            </button>
+            <button
+              onClick={replaceCurrent}
+              disabled={findResult.matches.length === 0}
+              className="px-3 py-1 border rounded hover:bg-gray-100 disabled:opacity-30"
+            >
+              Replace
+            </button>
+            <button
+              onClick={replaceAll}
+              disabled={findResult.matches.length === 0}
+              className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-30"
+            >
+              Replace All
+            </button>
+            <button onClick={() => setShowFind(false)} className="ml-auto p-1 text-gray-500 hover:text-gray-700">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
 
-  return (
-    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
-      <div className="bg-white rounded-lg p-6 w-[500px] shadow-2xl">
-        <div className="flex justify-between items-center mb-4">
-          <h3 className="text-xl font-bold">Edit Row</h3>
-          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
-            <X className="w-5 h-5" />
-          </button>
+        {/* Excel Grid - only the rows and columns in view are rendered */}
+        <div
+          ref={gridRef}
+          tabIndex={0}
+          onScroll={(e) => {
+            const grid = e.currentTarget;
+            setViewport({ top: grid.scrollTop, left: grid.scrollLeft, height: grid.clientHeight, width: grid.clientWidth });
+          }}
+          onKeyDown={handleGridKeyDown}
+          onCopy={(e) => handleCopy(e)}
+          onCut={(e) => handleCopy(e, true)}
+          onPaste={handlePaste}
+          className="flex-1 overflow-auto outline-none"
+        >
+          <table
+            className="border-collapse table-fixed"
+            style={{ width: EDITOR_ROW_NUMBER_WIDTH + localColumns.length * EDITOR_COLUMN_WIDTH + EDITOR_ACTIONS_WIDTH }}
+          >
+            <thead>
+              <tr>
+                <th
+                  className="sticky top-0 left-0 z-30 border border-gray-300 bg-gray-100 text-center"
+                  style={{ width: EDITOR_ROW_NUMBER_WIDTH }}
+                >
+                  #
+                </th>
+                {leftPad > 0 && <th className="sticky top-0 z-20 p-0 bg-gray-100" style={{ width: leftPad }} />}
+                {visibleColumns.map((col, offset) => {
+                  const index = colRange.start + offset;
+                  return (
+                    <ColumnHeader
+                      key={col}
+                      column={col}
+                      index={index}
+                      type={localTypes[col] || "text"}
+                      hasRules={hasColumnRule(localRules[col])}
+                      onEdit={() => handleEditColumn(index)}
+                      onEditRules={() => setEditingRules(col)}
+                      onDelete={() => handleDeleteColumn(index)}
+                      onInsertLeft={() => handleInsertColumn(index, 'left')}
+                      onInsertRight={() => handleInsertColumn(index, 'right')}
+                      menuOpen={columnMenu?.col === index && columnMenu.open}
+                      onMenuToggle={(open) => setColumnMenu({ col: index, open })}
+                    />
+                  );
+                })}
+                {rightPad > 0 && <th className="sticky top-0 z-20 p-0 bg-gray-100" style={{ width: rightPad }} />}
+                <th
+                  className="sticky top-0 z-20 border border-gray-300 bg-gray-100 text-center"
+                  style={{ width: EDITOR_ACTIONS_WIDTH }}
+                >
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {spacerRow(rowRange.start * EDITOR_ROW_HEIGHT)}
+              {localData.slice(rowRange.start, rowRange.end).map((row, offset) => {
+                const rowIndex = rowRange.start + offset;
+                const inSelection = multiCellSelection && rowIndex >= selection.start.row && rowIndex <= selection.end.row;
+                return (
+                  <TableRow
+                    key={rowIndex}
+                    row={row}
+                    rowIndex={rowIndex}
+                    columns={visibleColumns}
+                    leftPad={leftPad}
+                    rightPad={rightPad}
+                    columnTypes={localTypes}
+                    locale={locale}
+                    problems={problemsByRow[rowIndex]}
+                    activeColumn={activeCell?.row === rowIndex ? localColumns[activeCell.col] : undefined}
+                    selectedColumns={inSelection ? selectedColumns : undefined}
+                    matchedColumns={matchesByRow[rowIndex]}
+                    editing={editingCell?.row === rowIndex ? { value: editingCell.value } : undefined}
+                    onEditChange={(value) => setEditingCell(prev => prev && { ...prev, value })}
+                    onEditKeyDown={handleEditorKeyDown}
+                    onEditBlur={finishEditing}
+                    onCellMouseDown={(column, e) => handleCellMouseDown(rowIndex, column, e)}
+                    onCellMouseEnter={(column, e) => handleCellMouseEnter(rowIndex, column, e)}
+                    onCellDoubleClick={(column) => startEditing({ row: rowIndex, col: localColumns.indexOf(column) })}
+                    onEditRow={() => handleEditRow(rowIndex)}
+                    onDeleteRow={() => handleDeleteRow(rowIndex)}
+                    onDuplicateRow={() => handleDuplicateRow(rowIndex)}
+                    onInsertAbove={() => handleInsertRow(rowIndex, 'above')}
+                    onInsertBelow={() => handleInsertRow(rowIndex, 'below')}
+                    menuOpen={rowMenu?.row === rowIndex && rowMenu.open}
+                    onMenuToggle={(open) => setRowMenu({ row: rowIndex, open })}
+                  />
+                );
+              })}
+              {spacerRow((localData.length - rowRange.end) * EDITOR_ROW_HEIGHT)}
+              <EmptyRow
+                columns={visibleColumns}
+                leftPad={leftPad}
+                rightPad={rightPad}
+                columnTypes={localTypes}
+                locale={locale}
+                onAdd={handleAddRowWithData}
+              />
+            </tbody>
+          </table>
         </div>
 
-        <div className="space-y-4">
-          {columns.map((col, index) => (
-            <div key={col}>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                {col}
+        {/* Problems Panel */}
+        {showProblems && (
+          <div className="border-t bg-white">
+            <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b">
+              <span className="text-sm font-semibold text-gray-700">
+                {violations.length === 0
+                  ? "No problems"
+                  : `${violations.length} problem(s) in ${Object.keys(problemsByRow).length} record(s)`}
+              </span>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={excludeInvalid}
+                  onChange={(e) => onExcludeInvalidChange(e.target.checked)}
+                />
+                Skip records with problems when generating
               </label>
-              <input
-                ref={el => inputRefs.current[index] = el}
-                type="text"
-                value={editedRow[col]?.toString() || ''}
-                onChange={(e) => setEditedRow({ ...editedRow, [col]: e.target.value })}
-                className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && index === columns.length - 1) {
-                    onSave(editedRow);
-                    onClose();
-                  } else if (e.key === 'Enter') {
-                    inputRefs.current[index + 1]?.focus();
-                  } else if (e.key === 'Escape') {
-                    onClose();
-                  }
-                }}
-              />
             </div>
-          ))}
-        </div>
+            <ul className="max-h-40 overflow-y-auto divide-y text-sm">
+              {violations.length === 0 && (
+                <li className="px-4 py-2 text-gray-500">
+                  {Object.values(localRules).some(hasColumnRule)
+                    ? "Every record follows the column rules."
+                    : "No column rules yet - add them with Validation Rules in a column's menu."}
+                </li>
+              )}
+              {violations.slice(0, PROBLEM_LIST_LIMIT).map((violation, idx) => (
+                <li key={idx}>
+                  <button
+                    onClick={() => jumpToProblem(violation)}
+                    className="w-full px-4 py-1.5 text-left hover:bg-red-50 flex gap-3"
+                  >
+                    <span className="text-gray-500 w-16">Row {violation.row + 1}</span>
+                    <span className="font-medium text-gray-700">{violation.column}</span>
+                    <span className="text-red-600">{violation.message}</span>
+                  </button>
+                </li>
+              ))}
+              {violations.length > PROBLEM_LIST_LIMIT && (
+                <li className="px-4 py-2 text-gray-500">
+                  Showing the first {PROBLEM_LIST_LIMIT} - fix these to see the rest.
+                </li>
+              )}
+            </ul>
+          </div>
+        )}
 
-        <div className="flex gap-3 mt-6">
-          <button
-            onClick={() => {
-              onSave(editedRow);
-              onClose();
-            }}
-            className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
-          >
-            Save Changes
-          </button>
-          <button
-            onClick={onClose}
-            className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
-          >
+        {/* Bottom Bar */}
+        <div className="border-t p-3 bg-gray-50 flex justify-between items-center text-sm text-gray-600">
+          <div className="flex items-center gap-4">
+            <span className="flex items-center gap-1">
+              <Edit2 className="w-4 h-4" /> Arrows, Tab and Enter move between cells; Shift extends the selection
+            </span>
+            {selection && (
+              <span>
+                {selection.end.row - selection.start.row + 1} × {selection.end.col - selection.start.col + 1} selected
+              </span>
+            )}
+            {hasWriteAccess ? (
+              <span className="flex items-center gap-1 text-green-700">
+                <Check className="w-4 h-4" /> Direct save to {fileName}
+              </span>
+            ) : 'showOpenFilePicker' in window && (
+              <button onClick={onRequestWriteAccess} className="text-blue-600 hover:underline">
+                Enable direct save
+              </button>
+            )}
+          </div>
+          <button onClick={onClose} className="px-4 py-1.5 border rounded hover:bg-gray-200">
             Cancel
           </button>
         </div>
       </div>
+
+      {/* Modals */}
+      <RowEditModal
+        isOpen={editingRow !== null}
+        onClose={() => setEditingRow(null)}
+        row={editingRow?.data || {}}
+        columns={localColumns}
+        columnTypes={localTypes}
+        locale={locale}
+        onSave={handleSaveRow}
+      />
+
+      <ColumnEditModal
+        isOpen={editingColumn !== null}
+        onClose={() => setEditingColumn(null)}
+        columnName={editingColumn?.name || ''}
+        columnType={(editingColumn && localTypes[editingColumn.name]) || "text"}
+        onSave={handleSaveColumn}
+      />
+
+      <ColumnRulesModal
+        key={editingRules ?? ""}
+        isOpen={editingRules !== null}
+        onClose={() => setEditingRules(null)}
+        columnName={editingRules || ""}
+        rule={(editingRules && localRules[editingRules]) || {}}
+        onSave={(rule) => handleSaveRules(editingRules!, rule)}
+      />
     </div>
   );
 };
 
-// Column Edit Modal
-const ColumnEditModal: React.FC<{
-  isOpen: boolean;
+// Delimiter Picker - preset placeholder styles or custom start/end strings
+const DelimiterPicker: React.FC<{
+  value: TemplateDelimiters;
+  onChange: (delimiters: TemplateDelimiters) => void;
+}> = ({ value, onChange }) => {
+  const [custom, setCustom] = useState(getDelimiterStyle(value) === "custom");
+  const style = custom ? "custom" : getDelimiterStyle(value);
+
+  return (
+    <div>
+      <select
+        value={style}
+        onChange={(e) => {
+          const selected = e.target.value as DelimiterStyle;
+          setCustom(selected === "custom");
+          if (selected !== "custom") onChange(DELIMITER_PRESETS[selected]);
+        }}
+        className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+      >
+        {(Object.keys(DELIMITER_STYLE_LABELS) as DelimiterStyle[]).map(s => (
+          <option key={s} value={s}>{DELIMITER_STYLE_LABELS[s]}</option>
+        ))}
+      </select>
+      {style === "custom" && (
+        <div className="flex items-center gap-2 mt-2">
+          <input
+            type="text"
+            value={value.start}
+            onChange={(e) => onChange({ ...value, start: e.target.value })}
+            placeholder="Start, e.g. <<"
+            className="w-24 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+          />
+          <span className="text-sm text-gray-500">name</span>
+          <input
+            type="text"
+            value={value.end}
+            onChange={(e) => onChange({ ...value, end: e.target.value })}
+            placeholder="End, e.g. >>"
+            className="w-24 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Template Details Modal - rename, category, tags, placeholder style, language and QR link
+const TemplateDetailsModal: React.FC<{
+  template: SavedTemplate;
+  categories: string[];
+  columns: string[];
   onClose: () => void;
-  columnName: string;
-  onSave: (newName: string) => void;
-}> = ({ isOpen, onClose, columnName, onSave }) => {
-  const [newName, setNewName] = useState(columnName);
-  const inputRef = useRef<HTMLInputElement>(null);
+  onSave: (changes: TemplateDetailsChanges) => void;
+}> = ({ template, categories, columns, onClose, onSave }) => {
+  const [name, setName] = useState(template.name);
+  const [category, setCategory] = useState(template.category || "");
+  const [tagsInput, setTagsInput] = useState((template.tags || []).join(", "));
+  const [qrUrlPattern, setQrUrlPattern] = useState(template.qrUrlPattern || "");
+  const [barcodeHeight, setBarcodeHeight] = useState(template.barcodeHeight || DEFAULT_BARCODE_HEIGHT_MM);
+  const [barcodeShowText, setBarcodeShowText] = useState(template.barcodeShowText !== false);
+  const [delimiters, setDelimiters] = useState(getTemplateDelimiters(template));
+  const [locale, setLocale] = useState(template.locale || "");
+  const [timeZone, setTimeZone] = useState(template.timeZone || "");
+  const [localeColumn, setLocaleColumn] = useState(template.localeColumn || "");
+  const [timeZoneColumn, setTimeZoneColumn] = useState(template.timeZoneColumn || "");
+  const [computedFields, setComputedFields] = useState<ComputedField[]>(template.computedFields || []);
+  const [fileNamePattern, setFileNamePattern] = useState(template.fileNamePattern || "");
+
+  const updateComputedField = (index: number, changes: Partial<ComputedField>) => {
+    setComputedFields(prev => prev.map((f, i) => i === index ? { ...f, ...changes } : f));
+  };
 
-  useEffect(() => {
-    if (isOpen) {
-      setNewName(columnName);
-      setTimeout(() => inputRef.current?.focus(), 100);
-    }
-  }, [isOpen, columnName]);
+  const sampleFormat = {
+    locale: isValidLocale(locale.trim()) ? locale.trim() : DEFAULT_LOCALE,
+    timeZone: timeZone.trim() && isValidTimeZone(timeZone.trim()) ? timeZone.trim() : undefined,
+  };
 
-  if (!isOpen) return null;
+  const handleSave = () => {
+    onSave({
+      name: name.trim(),
+      category: category.trim(),
+      tags: parseTags(tagsInput),
+      qrUrlPattern: qrUrlPattern.trim(),
+      barcodeHeight: Math.max(5, barcodeHeight || DEFAULT_BARCODE_HEIGHT_MM),
+      barcodeShowText,
+      delimiters,
+      locale: locale.trim(),
+      timeZone: timeZone.trim(),
+      localeColumn: localeColumn.trim(),
+      timeZoneColumn: timeZoneColumn.trim(),
+      computedFields: computedFields
+        .map(f => ({ name: f.name.trim(), expression: f.expression.trim() }))
+        .filter(f => f.name || f.expression),
+      fileNamePattern: fileNamePattern.trim(),
+    });
+  };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
-      <div className="bg-white rounded-lg p-6 w-[400px] shadow-2xl">
-        <h3 className="text-xl font-bold mb-4">Edit Column</h3>
-        
-        <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Column Name
-          </label>
-          <input
-            ref={inputRef}
-            type="text"
-            value={newName}
-            onChange={(e) => setNewName(e.target.value)}
-            className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') {
-                onSave(newName);
-                onClose();
-              } else if (e.key === 'Escape') {
-                onClose();
-              }
-            }}
-          />
+      <div className="bg-white rounded-lg p-6 w-[480px] max-h-[90vh] overflow-y-auto shadow-2xl">
+        <h3 className="text-xl font-bold mb-4">Template Details</h3>
+
+        <div className="space-y-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              autoFocus
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+            <input
+              type="text"
+              list="template-categories"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="e.g. Training, Completion, Attendance"
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <datalist id="template-categories">
+              {categories.map(c => <option key={c} value={c} />)}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+            <input
+              type="text"
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+                else if (e.key === 'Escape') onClose();
+              }}
+              placeholder="Comma separated, e.g. fr, 2026, onsite"
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Placeholder style</label>
+            <DelimiterPicker value={delimiters} onChange={setDelimiters} />
+            {!sameDelimiters(delimiters, getTemplateDelimiters(template)) && (
+              <p className="text-xs text-gray-500 mt-1">
+                Placeholders will be re-detected in every version of this template.
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+              <Globe className="w-4 h-4" /> Language and time zone
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                list="template-locales"
+                value={locale}
+                onChange={(e) => setLocale(e.target.value)}
+                placeholder={DEFAULT_LOCALE}
+                className="w-1/3 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <input
+                type="text"
+                list="template-time-zones"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                placeholder="Browser time zone"
+                className="flex-1 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            <datalist id="template-locales">
+              {COMMON_LOCALES.map(l => <option key={l} value={l} />)}
+            </datalist>
+            <datalist id="template-time-zones">
+              {Intl.supportedValuesOf("timeZone").map(tz => <option key={tz} value={tz} />)}
+            </datalist>
+            <div className="flex gap-2 mt-2">
+              <input
+                type="text"
+                list="template-columns"
+                value={localeColumn}
+                onChange={(e) => setLocaleColumn(e.target.value)}
+                placeholder="Language column (optional)"
+                className="w-1/2 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+              />
+              <input
+                type="text"
+                list="template-columns"
+                value={timeZoneColumn}
+                onChange={(e) => setTimeZoneColumn(e.target.value)}
+                placeholder="Time zone column (optional)"
+                className="w-1/2 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+              />
+            </div>
+            <datalist id="template-columns">
+              {columns.map(c => <option key={c} value={c} />)}
+            </datalist>
+            <p className="text-xs text-gray-500 mt-1">
+              Today prints as <strong>{getBuiltInValues(new Date(), sampleFormat).TODAY}</strong>.
+              A record's language or time zone column, when set, overrides these.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+              <Calculator className="w-4 h-4" /> Computed fields
+            </label>
+            <div className="space-y-2">
+              {computedFields.map((field, index) => {
+                const error = field.name.trim() || field.expression.trim()
+                  ? getComputedFieldError(
+                      { name: field.name.trim(), expression: field.expression.trim() },
+                      computedFields.slice(0, index),
+                    )
+                  : null;
+                return (
+                  <div key={index}>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={field.name}
+                        onChange={(e) => updateComputedField(index, { name: e.target.value })}
+                        placeholder="fullName"
+                        className="w-28 px-2 py-1.5 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+                      />
+                      <span className="text-gray-500">=</span>
+                      <input
+                        type="text"
+                        value={field.expression}
+                        onChange={(e) => updateComputedField(index, { expression: e.target.value })}
+                        placeholder={'FirstName + " " + LastName'}
+                        className="flex-1 px-2 py-1.5 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+                      />
+                      <button
+                        onClick={() => setComputedFields(prev => prev.filter((_, i) => i !== index))}
+                        className="text-red-500 hover:text-red-700"
+                        title="Remove field"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              onClick={() => setComputedFields(prev => [...prev, { name: "", expression: "" }])}
+              className="mt-2 text-sm text-purple-600 hover:text-purple-800"
+            >
+              + Add field
+            </button>
+            <p className="text-xs text-gray-500 mt-1">
+              Use them as placeholders, in filters and in file names, e.g. <code>{"expires = addMonths(CompletionDate, 24)"}</code>.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">File name</label>
+            <input
+              type="text"
+              value={fileNamePattern}
+              onChange={(e) => setFileNamePattern(e.target.value)}
+              placeholder={'e.g. {fullName} - {expires | format:"yyyy"}'}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Optional. Placeholders and filters in single braces; leave empty to use the name column.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+              <QrCode className="w-4 h-4" /> QR code link
+            </label>
+            <input
+              type="text"
+              value={qrUrlPattern}
+              onChange={(e) => setQrUrlPattern(e.target.value)}
+              placeholder="e.g. https://example.org/verify?id={value}"
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Optional. <code>{"{value}"}</code> is the QR tag's value, <code>{"{Column}"}</code> any record column.
+              Leave empty to encode the value itself.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+              <Barcode className="w-4 h-4" /> Barcodes
+            </label>
+            <div className="flex items-center gap-3">
+              <input
+                type="number"
+                min={5}
+                max={100}
+                value={barcodeHeight}
+                onChange={(e) => setBarcodeHeight(parseInt(e.target.value) || 0)}
+                className="w-20 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <span className="text-sm text-gray-600">mm high</span>
+              <label className="flex items-center gap-2 text-sm text-gray-600 ml-auto">
+                <input
+                  type="checkbox"
+                  checked={barcodeShowText}
+                  onChange={(e) => setBarcodeShowText(e.target.checked)}
+                />
+                Show text under bars
+              </label>
+            </div>
+          </div>
         </div>
 
         <div className="flex gap-3">
           <button
-            onClick={() => {
-              onSave(newName);
-              onClose();
-            }}
+            onClick={handleSave}
             className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
           >
             Save
@@ -519,523 +5794,838 @@ const ColumnEditModal: React.FC<{
   );
 };
 
-// Table Row Component
-const TableRow: React.FC<{
-  row: CertificateData;
-  rowIndex: number;
+// Column Mapping Modal - where each placeholder of a template gets its value
+const ColumnMappingModal: React.FC<{
+  template: SavedTemplate;
+  placeholders: string[];
   columns: string[];
-  onEditRow: () => void;
-  onDeleteRow: () => void;
-  onDuplicateRow: () => void;
-  onInsertAbove: () => void;
-  onInsertBelow: () => void;
-  menuOpen: boolean;
-  onMenuToggle: (open: boolean) => void;
-}> = ({
-  row,
-  rowIndex,
-  columns,
-  onEditRow,
-  onDeleteRow,
-  onDuplicateRow,
-  onInsertAbove,
-  onInsertBelow,
-  menuOpen,
-  onMenuToggle
-}) => {
-  const menuRef = useRef<HTMLDivElement>(null);
+  onClose: () => void;
+  onSave: (mappings: ColumnMappings) => void;
+}> = ({ template, placeholders, columns, onClose, onSave }) => {
+  const [mappings, setMappings] = useState<ColumnMappings>(template.columnMappings || {});
+  const computedFields = template.computedFields || [];
+  const delimiters = getTemplateDelimiters(template);
+
+  // Suggestions only for placeholders that are neither mapped nor matched by name
+  const suggestions = new Map(
+    placeholders
+      .filter(p => !mappings[p] && !findColumn(p, columns))
+      .map(p => [p, suggestColumn(p, columns)] as const)
+      .filter((s): s is readonly [string, { column: string; score: number }] => !!s[1]),
+  );
 
-  useClickOutside(menuRef, () => onMenuToggle(false));
+  const setMapping = (placeholder: string, mapping: PlaceholderMapping | null) => {
+    setMappings(prev => {
+      const next = { ...prev };
+      if (mapping) next[placeholder] = mapping;
+      else delete next[placeholder];
+      return next;
+    });
+  };
+
+  const handleSourceChange = (placeholder: string, choice: string) => {
+    if (!choice) return setMapping(placeholder, null);
+    if (choice === "constant") return setMapping(placeholder, { source: "constant", value: "" });
+    const [source, ...value] = choice.split(":");
+    setMapping(placeholder, { source: source as PlaceholderMapping["source"], value: value.join(":") });
+  };
+
+  const applySuggestions = () => {
+    setMappings(prev => {
+      const next = { ...prev };
+      suggestions.forEach(({ column }, placeholder) => {
+        next[placeholder] = { source: "column", value: column };
+      });
+      return next;
+    });
+  };
 
   return (
-    <tr className="group hover:bg-gray-50">
-      <td className="border border-gray-300 px-2 py-2 text-center text-sm text-gray-500 bg-gray-50 w-12">
-        {rowIndex + 1}
-      </td>
-      
-      {columns.map((col) => (
-        <td key={col} className="border border-gray-300 px-3 py-2 text-sm">
-          {row[col]?.toString() || <span className="text-gray-400">—</span>}
-        </td>
-      ))}
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+      <div className="bg-white rounded-lg p-6 w-[640px] max-h-[85vh] overflow-y-auto shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-xl font-bold flex items-center gap-2">
+              <Link2 className="w-5 h-5 text-purple-600" /> Column Mapping
+            </h3>
+            <p className="text-sm text-gray-500">{template.name}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
 
-      <td className="border border-gray-300 px-2 py-1 text-center relative">
-        <div className="flex items-center justify-center gap-1">
+        {columns.length === 0 && (
+          <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-2 mb-3">
+            Load a dataset to pick columns. Saved mappings are kept and applied to the next upload.
+          </p>
+        )}
+
+        {placeholders.length === 0 ? (
+          <p className="text-sm text-gray-500">This template has no placeholders that read from the data.</p>
+        ) : (
+          <div className="space-y-2">
+            {placeholders.map(placeholder => {
+              const mapping = mappings[placeholder];
+              const automatic = findColumn(placeholder, columns);
+              const suggestion = suggestions.get(placeholder);
+              const missingColumn = mapping?.source === "column" && !columns.includes(mapping.value);
+              const missingField = mapping?.source === "computed" && !computedFields.some(f => f.name === mapping.value);
+              const choice = !mapping ? "" : mapping.source === "constant" ? "constant" : `${mapping.source}:${mapping.value}`;
+              return (
+                <div key={placeholder} className="p-2 border rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <code className="w-40 truncate text-sm text-blue-700" title={placeholder}>
+                      {formatTag(placeholder, delimiters)}
+                    </code>
+                    <span className="text-gray-400">←</span>
+                    <select
+                      value={choice}
+                      onChange={(e) => handleSourceChange(placeholder, e.target.value)}
+                      className="flex-1 px-2 py-1.5 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      <option value="">
+                        {automatic ? `Automatic: ${automatic}` : "Automatic (no matching column)"}
+                      </option>
+                      {(columns.length > 0 || missingColumn) && (
+                        <optgroup label="Columns">
+                          {columns.map(col => (
+                            <option key={col} value={`column:${col}`}>{col}</option>
+                          ))}
+                          {missingColumn && <option value={choice}>{mapping.value} (not in this data)</option>}
+                        </optgroup>
+                      )}
+                      {(computedFields.length > 0 || missingField) && (
+                        <optgroup label="Computed fields">
+                          {computedFields.map(f => (
+                            <option key={f.name} value={`computed:${f.name}`}>{f.name}</option>
+                          ))}
+                          {missingField && <option value={choice}>{mapping.value} (deleted)</option>}
+                        </optgroup>
+                      )}
+                      <option value="constant">Fixed text…</option>
+                    </select>
+                  </div>
+                  {mapping?.source === "constant" && (
+                    <input
+                      type="text"
+                      value={mapping.value}
+                      onChange={(e) => setMapping(placeholder, { source: "constant", value: e.target.value })}
+                      placeholder="Text used for every certificate"
+                      className="mt-2 w-full px-2 py-1.5 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                  )}
+                  {missingColumn && (
+                    <p className="text-xs text-amber-700 mt-1">
+                      Column "{mapping.value}" is not in the current data{automatic ? `, so "${automatic}" is used` : " - the placeholder stays empty"}.
+                    </p>
+                  )}
+                  {missingField && (
+                    <p className="text-xs text-amber-700 mt-1">Computed field "{mapping.value}" no longer exists.</p>
+                  )}
+                  {suggestion && (
+                    <button
+                      onClick={() => setMapping(placeholder, { source: "column", value: suggestion.column })}
+                      className="mt-1 text-xs text-purple-600 hover:text-purple-800 flex items-center gap-1"
+                    >
+                      <Sparkles className="w-3 h-3" />
+                      Use "{suggestion.column}" ({Math.round(suggestion.score * 100)}% similar)
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          {suggestions.size > 0 && (
+            <button
+              onClick={applySuggestions}
+              className="px-4 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 flex items-center gap-2"
+            >
+              <Sparkles className="w-4 h-4" /> Use all suggestions ({suggestions.size})
+            </button>
+          )}
           <button
-            onClick={onEditRow}
-            className="p-1.5 text-blue-600 hover:bg-blue-50 rounded transition"
-            title="Edit row"
+            onClick={() => onSave(mappings)}
+            className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
           >
-            <Edit2 className="w-4 h-4" />
+            Save
           </button>
           <button
-            onClick={() => onMenuToggle(!menuOpen)}
-            className="p-1.5 text-gray-600 hover:bg-gray-200 rounded transition"
-            title="Row options"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
           >
-            <MoreVertical className="w-4 h-4" />
+            Cancel
           </button>
         </div>
-
-        {menuOpen && (
-          <div ref={menuRef} className="absolute right-0 mt-1 bg-white shadow-xl rounded-lg border py-1 z-50 min-w-[160px]">
-            <button
-              onClick={() => { onInsertAbove(); onMenuToggle(false); }}
-              className="w-full px-4 py-2 text-left hover:bg-gray-50 text-sm flex items-center gap-2"
-            >
-              <ArrowUp className="w-4 h-4" /> Insert Above
-            </button>
-            <button
-              onClick={() => { onInsertBelow(); onMenuToggle(false); }}
-              className="w-full px-4 py-2 text-left hover:bg-gray-50 text-sm flex items-center gap-2"
-            >
-              <ArrowDown className="w-4 h-4" /> Insert Below
-            </button>
-            <button
-              onClick={() => { onDuplicateRow(); onMenuToggle(false); }}
-              className="w-full px-4 py-2 text-left hover:bg-gray-50 text-sm flex items-center gap-2"
-            >
-              <Copy className="w-4 h-4" /> Duplicate Row
-            </button>
-            <div className="border-t my-1" />
-            <button
-              onClick={() => { onDeleteRow(); onMenuToggle(false); }}
-              className="w-full px-4 py-2 text-left hover:bg-gray-50 text-red-600 text-sm flex items-center gap-2"
-            >
-              <Trash2 className="w-4 h-4" /> Delete Row
-            </button>
-          </div>
-        )}
-      </td>
-    </tr>
-  );
-};
-
-// Empty Row Component
-const EmptyRow: React.FC<{
-  columns: string[];
-  onAdd: (newRow: CertificateData) => void;
-}> = ({ columns, onAdd }) => {
-  const [newRow, setNewRow] = useState<CertificateData>({});
-  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
-
-  const handleAdd = () => {
-    if (Object.keys(newRow).length > 0) {
-      onAdd(newRow);
-      setNewRow({});
-      setTimeout(() => inputRefs.current[0]?.focus(), 0);
-    }
-  };
-
-  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
-    if (e.key === 'Enter') {
-      if (index === columns.length - 1) {
-        handleAdd();
-      } else {
-        inputRefs.current[index + 1]?.focus();
-      }
-    } else if (e.key === 'Escape') {
-      setNewRow({});
-      inputRefs.current[0]?.focus();
-    }
-  };
-
-  return (
-    <tr className="bg-blue-50 group">
-      <td className="border border-gray-300 px-2 py-1 text-center text-sm text-gray-500 bg-gray-50">
-        <Plus className="w-4 h-4 inline text-green-600" />
-      </td>
-      {columns.map((col, index) => (
-        <td key={col} className="border border-gray-300 p-1">
-          <input
-            ref={el => inputRefs.current[index] = el}
-            type="text"
-            placeholder={`Enter ${col}`}
-            value={newRow[col]?.toString() || ''}
-            onChange={(e) => setNewRow({ ...newRow, [col]: e.target.value })}
-            onKeyDown={(e) => handleKeyDown(e, index)}
-            className="w-full px-2 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
-          />
-        </td>
-      ))}
-      <td className="border border-gray-300 px-2 py-1 text-center">
-        <button
-          onClick={handleAdd}
-          disabled={Object.keys(newRow).length === 0}
-          className={`p-1.5 rounded-full transition ${
-            Object.keys(newRow).length > 0
-              ? 'text-green-600 hover:bg-green-100'
-              : 'text-gray-400 cursor-not-allowed'
-          }`}
-          title="Add row"
-        >
-          <Check className="w-5 h-5" />
-        </button>
-      </td>
-    </tr>
+      </div>
+    </div>
   );
 };
 
-// Main Excel Editor Modal
-const ExcelEditorModal: React.FC<{
-  isOpen: boolean;
+// Validation Report Modal
+const ValidationReportModal: React.FC<{
+  reports: ValidationReport[];
+  unknownTemplates: UnknownTemplateValue[];
+  invalidRows: number[];
+  excludeInvalid: boolean;
+  onProceed?: () => void;
   onClose: () => void;
-  data: CertificateData[];
-  columns: string[];
-  fileName: string;
-  onSave: (data: CertificateData[], columns: string[]) => void;
-}> = ({ isOpen, onClose, data, columns, fileName, onSave }) => {
-  const [localData, setLocalData] = useState(data);
-  const [localColumns, setLocalColumns] = useState(columns);
-  const [history, setHistory] = useState<EditHistory>({ past: [], future: [] });
-  
-  // Modal states
-  const [editingRow, setEditingRow] = useState<{ index: number; data: CertificateData } | null>(null);
-  const [editingColumn, setEditingColumn] = useState<{ index: number; name: string } | null>(null);
-  const [columnMenu, setColumnMenu] = useState<{ col: number; open: boolean } | null>(null);
-  const [rowMenu, setRowMenu] = useState<{ row: number; open: boolean } | null>(null);
-
-  // Reset state when modal opens
-  useEffect(() => {
-    if (isOpen) {
-      setLocalData(data);
-      setLocalColumns(columns);
-      setHistory({ past: [], future: [] });
-    }
-  }, [isOpen, data, columns]);
+}> = ({ reports, unknownTemplates, invalidRows, excludeInvalid, onProceed, onClose }) => {
+  const blocked = reports.some(r => r.templateErrors.length > 0);
+  const recordCount = reports.reduce((sum, r) => sum + r.recordCount, 0) +
+    unknownTemplates.reduce((sum, u) => sum + u.rows.length, 0) +
+    (excludeInvalid ? invalidRows.length : 0);
+  // With several templates a column only counts as unused if none of them reads it
+  const unusedColumns = reports.length > 0
+    ? reports.map(r => r.unusedColumns).reduce((unused, cols) => unused.filter(c => cols.includes(c)))
+    : [];
+  const formatRows = (rows: number[]) =>
+    rows.slice(0, 10).join(", ") + (rows.length > 10 ? ` and ${rows.length - 10} more` : "");
 
-  const pushToHistory = (newData: CertificateData[], newColumns: string[]) => {
-    setHistory(prev => ({
-      past: [...prev.past, { data: localData, columns: localColumns }].slice(-2),
-      future: []
-    }));
-  };
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[600px] max-h-[85vh] overflow-y-auto shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-xl font-bold flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5 text-purple-600" /> Validation Report
+            </h3>
+            <p className="text-sm text-gray-500">
+              {recordCount} record(s) checked{reports.length > 1 ? ` against ${reports.length} templates` : ""}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
 
-  const undo = () => {
-    if (history.past.length === 0) return;
-    const previous = history.past[history.past.length - 1];
-    setHistory(prev => ({
-      past: prev.past.slice(0, -1),
-      future: [{ data: localData, columns: localColumns }, ...prev.future],
-    }));
-    setLocalData(previous.data);
-    setLocalColumns(previous.columns);
-  };
+        <div className="space-y-4">
+          {invalidRows.length > 0 && (
+            <div className={`p-3 rounded-lg ${excludeInvalid ? "bg-orange-50 text-orange-700" : "bg-yellow-50 text-yellow-800"}`}>
+              <h4 className="font-semibold flex items-center gap-2 mb-2">
+                <AlertCircle className="w-4 h-4" /> Records breaking column rules ({invalidRows.length})
+              </h4>
+              <p className="text-xs mb-2">
+                {excludeInvalid
+                  ? "These records will be skipped. Fix them in the editor's Problems panel, or turn off skipping there."
+                  : "These records will be generated anyway. Fix them in the editor's Problems panel, or choose to skip them there."}
+              </p>
+              <p className="text-sm">Rows {formatRows(invalidRows)}</p>
+            </div>
+          )}
 
-  const redo = () => {
-    if (history.future.length === 0) return;
-    const next = history.future[0];
-    setHistory(prev => ({
-      past: [...prev.past, { data: localData, columns: localColumns }],
-      future: prev.future.slice(1),
-    }));
-    setLocalData(next.data);
-    setLocalColumns(next.columns);
-  };
+          {unknownTemplates.length > 0 && (
+            <div className="p-3 bg-orange-50 rounded-lg">
+              <h4 className="font-semibold text-orange-700 flex items-center gap-2 mb-2">
+                <AlertCircle className="w-4 h-4" /> Records with no matching template ({unknownTemplates.length} value(s))
+              </h4>
+              <p className="text-xs text-orange-700 mb-2">
+                The template column names no saved template or tag for these records, so they will be skipped.
+              </p>
+              <ul className="space-y-1 text-sm text-orange-700">
+                {unknownTemplates.map(u => (
+                  <li key={u.value}>
+                    "{u.value}" in {u.rows.length} record(s): rows {formatRows(u.rows)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
 
-  const handleAddRow = () => {
-    const newRow: CertificateData = {};
-    localColumns.forEach(col => newRow[col] = '');
-    const newData = [...localData, newRow];
-    pushToHistory(newData, localColumns);
-    setLocalData(newData);
-  };
+          {reports.map((report, reportIdx) => (
+            <div key={report.templateName || reportIdx} className="space-y-4">
+              {reports.length > 1 && (
+                <h4 className="font-semibold text-gray-800 border-b pb-1">
+                  {report.templateName || "Current template"}
+                  <span className="text-sm font-normal text-gray-500 ml-2">{report.recordCount} record(s)</span>
+                </h4>
+              )}
 
-  const handleAddRowWithData = (newRow: CertificateData) => {
-    const newData = [...localData, newRow];
-    pushToHistory(newData, localColumns);
-    setLocalData(newData);
-  };
+              {report.templateErrors.length > 0 && (
+                <div className="p-3 bg-red-50 rounded-lg">
+                  <h4 className="font-semibold text-red-700 flex items-center gap-2 mb-2">
+                    <AlertCircle className="w-4 h-4" /> Template errors ({report.templateErrors.length})
+                  </h4>
+                  <ul className="space-y-1 text-sm text-red-700">
+                    {report.templateErrors.map((issue, idx) => (
+                      <li key={idx}>
+                        {issue.explanation}
+                        <span className="text-xs text-red-500 ml-1">
+                          ({issue.part}{issue.offset !== undefined ? `, character ${issue.offset + 1}` : ""}
+                          {issue.context ? `, near "${issue.context}"` : ""})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
-  const handleDeleteRow = (rowIndex: number) => {
-    if (confirm('Delete this row?')) {
-      const newData = localData.filter((_, i) => i !== rowIndex);
-      pushToHistory(newData, localColumns);
-      setLocalData(newData);
-    }
-  };
+              {report.unmatchedPlaceholders.length > 0 && (
+                <div className="p-3 bg-orange-50 rounded-lg">
+                  <h4 className="font-semibold text-orange-700 flex items-center gap-2 mb-2">
+                    <AlertCircle className="w-4 h-4" /> Placeholders without a matching column ({report.unmatchedPlaceholders.length})
+                  </h4>
+                  <p className="text-xs text-orange-700 mb-2">
+                    These will be rendered empty. Map them to a column, fixed text or computed field in the template's Column Mapping.
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {report.unmatchedPlaceholders.map(p => (
+                      <code key={p} className="text-xs bg-white text-orange-700 px-2 py-0.5 rounded">{formatTag(p, report.delimiters || DEFAULT_DELIMITERS)}</code>
+                    ))}
+                  </div>
+                </div>
+              )}
 
-  const handleDuplicateRow = (rowIndex: number) => {
-    const rowToDuplicate = { ...localData[rowIndex] };
-    const newData = [
-      ...localData.slice(0, rowIndex + 1),
-      rowToDuplicate,
-      ...localData.slice(rowIndex + 1)
-    ];
-    pushToHistory(newData, localColumns);
-    setLocalData(newData);
-  };
+              {report.emptyValues.length > 0 && (
+                <div className="p-3 bg-yellow-50 rounded-lg">
+                  <h4 className="font-semibold text-yellow-800 flex items-center gap-2 mb-2">
+                    <AlertCircle className="w-4 h-4" /> Records with empty values
+                  </h4>
+                  <ul className="space-y-1 text-sm text-yellow-800">
+                    {report.emptyValues.map(e => (
+                      <li key={e.placeholder}>
+                        <code>{formatTag(e.placeholder, report.delimiters || DEFAULT_DELIMITERS)}</code> ({e.column}) is empty in {e.rows.length} record(s): rows {formatRows(e.rows)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
-  const handleInsertRow = (rowIndex: number, position: 'above' | 'below') => {
-    const newRow: CertificateData = {};
-    localColumns.forEach(col => newRow[col] = '');
-    const insertIndex = position === 'above' ? rowIndex : rowIndex + 1;
-    const newData = [
-      ...localData.slice(0, insertIndex),
-      newRow,
-      ...localData.slice(insertIndex)
-    ];
-    pushToHistory(newData, localColumns);
-    setLocalData(newData);
-  };
+              {report.missingAssets.length > 0 && (
+                <div className="p-3 bg-yellow-50 rounded-lg">
+                  <h4 className="font-semibold text-yellow-800 flex items-center gap-2 mb-2">
+                    <ImageIcon className="w-4 h-4" /> Images not found in the asset library
+                  </h4>
+                  <ul className="space-y-1 text-sm text-yellow-800">
+                    {report.missingAssets.map(m => (
+                      <li key={`${m.placeholder}:${m.value}`}>
+                        <code>{formatTag(`%${m.placeholder}`, report.delimiters || DEFAULT_DELIMITERS)}</code> "{m.value}" in {m.rows.length} record(s): rows {formatRows(m.rows)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          ))}
 
-  const handleAddColumn = () => {
-    const newColName = prompt('Enter new column name:');
-    if (!newColName || localColumns.includes(newColName)) return;
-    
-    const newColumns = [...localColumns, newColName];
-    const newData = localData.map(row => ({
-      ...row,
-      [newColName]: ''
-    }));
-    
-    pushToHistory(newData, newColumns);
-    setLocalColumns(newColumns);
-    setLocalData(newData);
-  };
+          {unusedColumns.length > 0 && (
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <h4 className="font-semibold text-gray-700 mb-2">
+                Columns not used by the {reports.length > 1 ? "templates" : "template"} ({unusedColumns.length})
+              </h4>
+              <div className="flex flex-wrap gap-1">
+                {unusedColumns.map(col => (
+                  <span key={col} className="text-xs bg-white text-gray-600 px-2 py-0.5 rounded border">{col}</span>
+                ))}
+              </div>
+            </div>
+          )}
 
-  const handleDeleteColumn = (colIndex: number) => {
-    if (!confirm(`Delete column "${localColumns[colIndex]}"?`)) return;
-    
-    const colToDelete = localColumns[colIndex];
-    const newColumns = localColumns.filter((_, i) => i !== colIndex);
-    const newData = localData.map(row => {
-      const newRow = { ...row };
-      delete newRow[colToDelete];
-      return newRow;
-    });
-    
-    pushToHistory(newData, newColumns);
-    setLocalColumns(newColumns);
-    setLocalData(newData);
-  };
+          {!reports.some(hasValidationIssues) && unknownTemplates.length === 0 && (
+            <div className="p-3 bg-green-50 rounded-lg text-green-700 flex items-center gap-2">
+              <Check className="w-4 h-4" /> Template and data are ready for generation
+            </div>
+          )}
+        </div>
 
-  const handleInsertColumn = (colIndex: number, position: 'left' | 'right') => {
-    const newColName = prompt('Enter new column name:');
-    if (!newColName || localColumns.includes(newColName)) return;
-    
-    const insertIndex = position === 'left' ? colIndex : colIndex + 1;
-    const newColumns = [
-      ...localColumns.slice(0, insertIndex),
-      newColName,
-      ...localColumns.slice(insertIndex)
-    ];
-    
-    const newData = localData.map(row => ({
-      ...row,
-      [newColName]: ''
-    }));
-    
-    pushToHistory(newData, newColumns);
-    setLocalColumns(newColumns);
-    setLocalData(newData);
-  };
+        <div className="flex gap-3 mt-6">
+          {onProceed && (
+            <button
+              onClick={() => { onProceed(); onClose(); }}
+              className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700"
+            >
+              Generate Anyway
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+          >
+            {blocked ? "Close - fix the template first" : onProceed ? "Cancel" : "Close"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
 
-  const handleEditRow = (rowIndex: number) => {
-    setEditingRow({ index: rowIndex, data: { ...localData[rowIndex] } });
-  };
+// Data Import Modal - pick sheets or fix the text encoding and delimiter while
+// previewing the first rows
+const IMPORT_PREVIEW_ROWS = 10;
 
-  const handleSaveRow = (updatedRow: CertificateData) => {
-    const newData = [...localData];
-    newData[editingRow!.index] = updatedRow;
-    pushToHistory(newData, localColumns);
-    setLocalData(newData);
-    setEditingRow(null);
-  };
+const DELIMITER_LABELS: { [delimiter: string]: string } = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab",
+  "|": "Pipe",
+};
 
-  const handleEditColumn = (colIndex: number) => {
-    setEditingColumn({ index: colIndex, name: localColumns[colIndex] });
-  };
+const DataImportModal: React.FC<{
+  fileName: string;
+  source: ImportSource;
+  locale: string;
+  onImport: (dataset: ImportedDataset) => void;
+  onClose: () => void;
+}> = ({ fileName, source, locale, onImport, onClose }) => {
+  const sheets = source.kind === "workbook" ? source.sheets : [];
+  const [selected, setSelected] = useState<string[]>(() => {
+    const first = sheets.find(s => s.rowCount > 0) || sheets[0];
+    return first ? [first.name] : [];
+  });
+  const [encoding, setEncoding] = useState<TextEncodingName | undefined>(
+    source.kind === "delimited" ? source.encoding : undefined,
+  );
+  const [delimiter, setDelimiter] = useState(source.kind === "delimited" ? source.delimiter : undefined);
 
-  const handleSaveColumn = (newName: string) => {
-    if (!newName || newName === editingColumn!.name) {
-      setEditingColumn(null);
-      return;
+  const chosen = sheets.filter(s => selected.includes(s.name));
+  const headersMatch = chosen.every(s => sameColumns(s.columns, chosen[0].columns));
+
+  const preview = useMemo((): { dataset?: ImportedDataset; error?: string } => {
+    try {
+      return { dataset: getImportedDataset(source, { sheetNames: selected, encoding, delimiter }) };
+    } catch (error) {
+      return { error: getErrorMessage(error) };
     }
+  }, [source, selected, encoding, delimiter]);
+  const dataset = preview.dataset;
 
-    const oldName = localColumns[editingColumn!.index];
-    const newColumns = [...localColumns];
-    newColumns[editingColumn!.index] = newName;
-    
-    const newData = localData.map(row => {
-      const newRow = { ...row };
-      newRow[newName] = newRow[oldName];
-      delete newRow[oldName];
-      return newRow;
-    });
-    
-    pushToHistory(newData, newColumns);
-    setLocalColumns(newColumns);
-    setLocalData(newData);
-    setEditingColumn(null);
+  const toggleSheet = (name: string) => {
+    setSelected(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
   };
 
-  const handleSave = () => {
-    onSave(localData, localColumns);
-    onClose();
+  // Adds every sheet with the same headers as the first chosen one
+  const selectMatching = () => {
+    if (!chosen[0]) return;
+    setSelected(sheets.filter(s => s.rowCount > 0 && sameColumns(s.columns, chosen[0].columns)).map(s => s.name));
   };
 
-  // Keyboard shortcuts
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (!isOpen) return;
-      if (e.ctrlKey || e.metaKey) {
-        if (e.key === 'z' && !e.shiftKey) {
-          e.preventDefault();
-          undo();
-        }
-        if (e.key === 'y' || (e.key === 'z' && e.shiftKey)) {
-          e.preventDefault();
-          redo();
-        }
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, history]);
-
-  if (!isOpen) return null;
-
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg w-full max-w-6xl max-h-[90vh] flex flex-col shadow-2xl">
-        {/* Header */}
-        <div className="flex justify-between items-center p-4 border-b">
-          <div className="flex items-center gap-3">
-            <FileSpreadsheet className="w-6 h-6 text-blue-600" />
-            <div>
-              <h3 className="text-xl font-bold">Edit Excel Data</h3>
-              <p className="text-sm text-gray-500">{fileName} • {localData.length} rows • {localColumns.length} columns</p>
-            </div>
+      <div className="bg-white rounded-lg p-6 w-[760px] max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-xl font-bold flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5 text-purple-600" /> Import Data
+            </h3>
+            <p className="text-sm text-gray-500">
+              {fileName}
+              {sheets.length > 1 && ` has ${sheets.length} sheets`}
+            </p>
           </div>
           <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
-            <X className="w-6 h-6" />
+            <X className="w-5 h-5" />
           </button>
         </div>
 
-        {/* Toolbar */}
-        <div className="flex items-center gap-2 p-2 border-b bg-gray-50">
-          <button
-            onClick={undo}
-            disabled={history.past.length === 0}
-            className="p-2 rounded hover:bg-gray-200 disabled:opacity-30 disabled:hover:bg-transparent"
-            title="Undo (Ctrl+Z)"
-          >
-            <RotateCcw className="w-5 h-5" />
-          </button>
-          <button
-            onClick={redo}
-            disabled={history.future.length === 0}
-            className="p-2 rounded hover:bg-gray-200 disabled:opacity-30 disabled:hover:bg-transparent"
-            title="Redo (Ctrl+Y)"
-          >
-            <RotateCw className="w-5 h-5" />
-          </button>
-          <div className="w-px h-6 bg-gray-300 mx-1" />
+        {sheets.length > 1 && (
+          <div className="space-y-2 mb-4">
+            {sheets.map(sheet => {
+              const isSelected = selected.includes(sheet.name);
+              const differs = chosen.length > 0 && !sameColumns(sheet.columns, chosen[0].columns);
+              return (
+                <label
+                  key={sheet.name}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${
+                    isSelected ? 'border-purple-500 bg-purple-50' : 'border-gray-200 hover:bg-gray-50'
+                  } ${sheet.rowCount === 0 ? 'opacity-50' : ''}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    disabled={sheet.rowCount === 0}
+                    onChange={() => toggleSheet(sheet.name)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm">{sheet.name}</span>
+                      <span className="text-xs text-gray-500">{sheet.rowCount} row(s)</span>
+                      {differs && <span className="text-xs text-orange-600">different headers</span>}
+                    </div>
+                    <p className="text-xs text-gray-500 truncate" title={sheet.columns.join(", ")}>
+                      {sheet.columns.join(", ") || "No data"}
+                    </p>
+                  </div>
+                </label>
+              );
+            })}
+            {chosen.length > 0 && (
+              <button
+                onClick={selectMatching}
+                className="text-xs text-purple-700 hover:underline"
+                title="Select every sheet with the same headers"
+              >
+                Select all sheets with these headers
+              </button>
+            )}
+          </div>
+        )}
+
+        {chosen.length > 1 && headersMatch && (
+          <p className="text-sm rounded-lg p-3 mb-4 bg-blue-50 text-blue-800">
+            {chosen.length} sheets will be combined into one dataset, with a "{SOURCE_SHEET_COLUMN}" column naming the sheet of each row.
+          </p>
+        )}
+
+        {source.kind === "delimited" && (
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            <label className="text-sm text-gray-700">
+              Encoding
+              <select
+                value={encoding}
+                onChange={(e) => setEncoding(e.target.value as TextEncodingName)}
+                className="mt-1 w-full px-3 py-2 border rounded-lg"
+              >
+                {TEXT_ENCODINGS.map(name => (
+                  <option key={name} value={name}>{name.toUpperCase()}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Delimiter
+              <select
+                value={delimiter}
+                onChange={(e) => setDelimiter(e.target.value)}
+                className="mt-1 w-full px-3 py-2 border rounded-lg"
+              >
+                {CSV_DELIMITERS.map(d => (
+                  <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+
+        {preview.error ? (
+          <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" /> {preview.error}
+          </div>
+        ) : dataset && (
+          <div>
+            <p className="text-sm text-gray-600 mb-2">
+              {dataset.rows.length} row(s), {dataset.columns.length} column(s)
+              {dataset.rows.length > IMPORT_PREVIEW_ROWS && ` - showing the first ${IMPORT_PREVIEW_ROWS}`}
+            </p>
+            <div className="overflow-x-auto border rounded-lg">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {dataset.columns.map(col => (
+                      <th key={col} className="px-2 py-1.5 text-left font-semibold text-gray-700 whitespace-nowrap">
+                        {col}
+                        <span className="block font-normal text-gray-400">{COLUMN_TYPE_LABELS[dataset.columnTypes[col] || "text"]}</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {dataset.rows.slice(0, IMPORT_PREVIEW_ROWS).map((row, idx) => (
+                    <tr key={idx} className="border-t">
+                      {dataset.columns.map(col => (
+                        <td key={col} className="px-2 py-1 text-gray-700 whitespace-nowrap max-w-[200px] truncate">
+                          {formatColumnValue(row[col], dataset.columnTypes[col], locale)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
           <button
-            onClick={handleAddRow}
-            className="flex items-center gap-1 px-3 py-1.5 bg-green-600 text-white rounded hover:bg-green-700 text-sm"
+            onClick={() => dataset && onImport(dataset)}
+            disabled={!dataset || dataset.rows.length === 0}
+            className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            <Plus className="w-4 h-4" /> Add Row
+            {chosen.length > 1 ? `Combine ${chosen.length} Sheets` : `Import ${dataset?.rows.length || 0} Rows`}
           </button>
           <button
-            onClick={handleAddColumn}
-            className="flex items-center gap-1 px-3 py-1.5 bg-purple-600 text-white rounded hover:bg-purple-700 text-sm"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
           >
-            <Plus className="w-4 h-4" /> Add Column
+            Cancel
           </button>
-          <div className="flex-1" />
-          <div className="text-xs text-gray-500 flex items-center gap-3">
-            <span className="flex items-center gap-1">
-              <Edit2 className="w-4 h-4" /> Click edit buttons
-            </span>
-            <span className="flex items-center gap-1">
-              <kbd className="px-1.5 py-0.5 bg-gray-200 rounded text-xs">Ctrl+Z</kbd> undo
-            </span>
-            <span className="flex items-center gap-1">
-              <kbd className="px-1.5 py-0.5 bg-gray-200 rounded text-xs">Ctrl+Y</kbd> redo
-            </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Template Pack Import Modal
+const TemplatePackImportModal: React.FC<{
+  pack: TemplatePack;
+  existing: SavedTemplate | undefined;
+  onImport: (mode: PackImportMode) => void;
+  onClose: () => void;
+}> = ({ pack, existing, onImport, onClose }) => {
+  const versions = getTemplateVersions(pack.template);
+  const mappingCount = Object.keys(pack.template.columnMappings || {}).length;
+  const newVersionCount = existing
+    ? versions.filter(v => !getTemplateVersions(existing).some(e => e.id === v.id)).length
+    : versions.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[480px] shadow-2xl">
+        <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+          <PackageOpen className="w-5 h-5 text-purple-600" /> Import Template Pack
+        </h3>
+
+        <div className="bg-gray-50 rounded-lg p-3 text-sm space-y-1 mb-4">
+          <div><span className="font-medium">Template:</span> {pack.template.name}</div>
+          <div><span className="font-medium">Versions:</span> {versions.length} (active v{getActiveVersion(pack.template).number})</div>
+          <div><span className="font-medium">Column mappings:</span> {mappingCount}</div>
+          <div><span className="font-medium">Counter rows:</span> {pack.counters.length}</div>
+          {pack.exportedAt && (
+            <div className="text-xs text-gray-500">Exported {new Date(pack.exportedAt).toLocaleString()}</div>
+          )}
+        </div>
+
+        {existing ? (
+          <div className="text-sm bg-orange-50 text-orange-800 rounded-lg p-3 mb-4 space-y-1">
+            <p>
+              This pack contains a template that already exists here as <strong>{existing.name}</strong>.
+            </p>
+            <p><strong>Merge</strong> adds {newVersionCount} new version(s), keeps your active version and mappings, and keeps the highest counter per month.</p>
+            <p><strong>Replace</strong> overwrites the template, its mappings and its counters with the pack.</p>
           </div>
+        ) : (
+          <p className="text-sm text-gray-600 mb-4">The template will be added to your library with its counters.</p>
+        )}
+
+        <div className="flex gap-3">
+          {existing ? (
+            <>
+              <button
+                onClick={() => onImport("merge")}
+                className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => onImport("replace")}
+                className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700"
+              >
+                Replace
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => onImport("replace")}
+              className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+            >
+              Import
+            </button>
+          )}
           <button
-            onClick={handleSave}
-            className="flex items-center gap-1 px-4 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
           >
-            <Save className="w-4 h-4" /> Save
+            Cancel
           </button>
         </div>
+      </div>
+    </div>
+  );
+};
 
-        {/* Excel Grid */}
-        <div className="flex-1 overflow-auto p-4">
-          <table className="border-collapse border border-gray-300 w-full">
-            <thead>
-              <tr>
-                <th className="border border-gray-300 bg-gray-100 w-12 text-center">#</th>
-                {localColumns.map((col, index) => (
-                  <ColumnHeader
-                    key={col}
-                    column={col}
-                    index={index}
-                    onEdit={() => handleEditColumn(index)}
-                    onDelete={() => handleDeleteColumn(index)}
-                    onInsertLeft={() => handleInsertColumn(index, 'left')}
-                    onInsertRight={() => handleInsertColumn(index, 'right')}
-                    menuOpen={columnMenu?.col === index && columnMenu.open}
-                    onMenuToggle={(open) => setColumnMenu({ col: index, open })}
-                  />
-                ))}
-                <th className="border border-gray-300 bg-gray-100 w-20 text-center">Actions</th>
-              </tr>
-            </thead>
-            <tbody>
-              {localData.map((row, rowIndex) => (
-                <TableRow
-                  key={rowIndex}
-                  row={row}
-                  rowIndex={rowIndex}
-                  columns={localColumns}
-                  onEditRow={() => handleEditRow(rowIndex)}
-                  onDeleteRow={() => handleDeleteRow(rowIndex)}
-                  onDuplicateRow={() => handleDuplicateRow(rowIndex)}
-                  onInsertAbove={() => handleInsertRow(rowIndex, 'above')}
-                  onInsertBelow={() => handleInsertRow(rowIndex, 'below')}
-                  menuOpen={rowMenu?.row === rowIndex && rowMenu.open}
-                  onMenuToggle={(open) => setRowMenu({ row: rowIndex, open })}
-                />
-              ))}
-              <EmptyRow columns={localColumns} onAdd={handleAddRowWithData} />
-            </tbody>
-          </table>
-        </div>
+// Template Version History Modal
+const TemplateVersionsModal: React.FC<{
+  template: SavedTemplate | null;
+  onClose: () => void;
+  onActivate: (versionId: string) => void;
+}> = ({ template, onClose, onActivate }) => {
+  const [baseId, setBaseId] = useState("");
+  const [targetId, setTargetId] = useState("");
 
-        {/* Bottom Bar */}
-        <div className="border-t p-3 bg-gray-50 flex justify-between items-center text-sm text-gray-600">
-          <div className="flex items-center gap-4">
-            <span className="flex items-center gap-1">
-              <Edit2 className="w-4 h-4" /> Click edit buttons to modify
-            </span>
+  if (!template) return null;
+
+  const versions = getTemplateVersions(template);
+  const active = getActiveVersion(template);
+  const delimiters = getTemplateDelimiters(template);
+  const target = versions.find(v => v.id === targetId) || active;
+  const base = versions.find(v => v.id === baseId) ||
+    versions[Math.max(0, versions.indexOf(target) - 1)];
+
+  const added = target.placeholders.filter(p => !base.placeholders.includes(p));
+  const removed = base.placeholders.filter(p => !target.placeholders.includes(p));
+  const unchanged = target.placeholders.filter(p => base.placeholders.includes(p));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[640px] max-h-[85vh] overflow-y-auto shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-xl font-bold">Version History</h3>
+            <p className="text-sm text-gray-500">{template.name} • {versions.length} version(s)</p>
           </div>
-          <button onClick={onClose} className="px-4 py-1.5 border rounded hover:bg-gray-200">
-            Cancel
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
           </button>
         </div>
+
+        <div className="space-y-2 mb-6">
+          {[...versions].reverse().map((version) => (
+            <div
+              key={version.id}
+              className={`flex items-center gap-3 p-3 rounded-lg border ${
+                version.id === active.id ? 'border-purple-500 bg-purple-50' : 'border-gray-200'
+              }`}
+            >
+              <span className="font-bold text-purple-700 w-10">v{version.number}</span>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm">
+                  {version.uploadDate} • {version.placeholders.length} placeholder(s)
+                </div>
+                {version.note && (
+                  <div className="text-xs text-gray-500 truncate">{version.note}</div>
+                )}
+              </div>
+              {version.id === active.id ? (
+                <span className="text-xs bg-purple-600 text-white px-2 py-1 rounded-full">Active</span>
+              ) : (
+                <button
+                  onClick={() => onActivate(version.id)}
+                  className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 rounded hover:bg-gray-200"
+                  title="Make this version active"
+                >
+                  <RotateCcw className="w-4 h-4" /> Roll back
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {versions.length > 1 && (
+          <div className="border-t pt-4">
+            <h4 className="font-semibold flex items-center gap-2 mb-3">
+              <GitCompare className="w-4 h-4" /> Compare Placeholders
+            </h4>
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              <select
+                value={base.id}
+                onChange={(e) => setBaseId(e.target.value)}
+                className="border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {versions.map(v => <option key={v.id} value={v.id}>From v{v.number}</option>)}
+              </select>
+              <select
+                value={target.id}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {versions.map(v => <option key={v.id} value={v.id}>To v{v.number}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1 text-xs max-h-48 overflow-y-auto">
+              {added.map(p => (
+                <div key={`+${p}`} className="p-1.5 bg-green-50 text-green-700 rounded">+ {formatTag(p, delimiters)}</div>
+              ))}
+              {removed.map(p => (
+                <div key={`-${p}`} className="p-1.5 bg-red-50 text-red-700 rounded">− {formatTag(p, delimiters)}</div>
+              ))}
+              {unchanged.map(p => (
+                <div key={`=${p}`} className="p-1.5 bg-gray-50 text-gray-600 rounded">{formatTag(p, delimiters)}</div>
+              ))}
+              {added.length === 0 && removed.length === 0 && (
+                <p className="text-gray-500 py-1">Both versions use the same placeholders</p>
+              )}
+            </div>
+          </div>
+        )}
       </div>
+    </div>
+  );
+};
 
-      {/* Modals */}
-      <RowEditModal
-        isOpen={editingRow !== null}
-        onClose={() => setEditingRow(null)}
-        row={editingRow?.data || {}}
-        columns={localColumns}
-        onSave={handleSaveRow}
-      />
+// High-fidelity preview - the merged DOCX drawn by docx-preview, so page size,
+// orientation, headers, footers, text boxes and images match the downloaded file
+const PREVIEW_PAGE_GAP = 30; // docx-preview's padding around each page
+const PREVIEW_ZOOM_LEVELS = [25, 50, 75, 100, 125, 150, 200];
+
+const DocxPreview: React.FC<{
+  file: ArrayBuffer;
+  zoom: number;
+  fitToPage: boolean;
+  contentRef: React.RefObject<HTMLDivElement | null>;
+}> = ({ file, zoom, fitToPage, contentRef }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [layout, setLayout] = useState<{ width: number; height: number; pageWidth: number; pageHeight: number } | null>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [error, setError] = useState<string | null>(null);
 
-      <ColumnEditModal
-        isOpen={editingColumn !== null}
-        onClose={() => setEditingColumn(null)}
-        columnName={editingColumn?.name || ''}
-        onSave={handleSaveColumn}
-      />
+  useEffect(() => {
+    const container = contentRef.current;
+    if (!container) return;
+    let cancelled = false;
+    renderAsync(file, container, undefined, {
+      inWrapper: true,
+      hideWrapperOnPrint: true,
+      breakPages: true,
+      ignoreLastRenderedPageBreak: true,
+      renderHeaders: true,
+      renderFooters: true,
+      // Data URLs keep images working in the print window
+      useBase64URL: true,
+    })
+      .then(() => {
+        if (cancelled) return;
+        const page = container.querySelector<HTMLElement>("section.docx");
+        setError(null);
+        setLayout({
+          width: container.scrollWidth,
+          height: container.scrollHeight,
+          pageWidth: (page?.offsetWidth || container.scrollWidth) + 2 * PREVIEW_PAGE_GAP,
+          pageHeight: (page?.offsetHeight || container.scrollHeight) + 2 * PREVIEW_PAGE_GAP,
+        });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("❌ DOCX preview failed:", err);
+        setError(getErrorMessage(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, contentRef]);
+
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit shows the whole first page; the scaled size is set on the outer box
+  // because transforms don't change the scroll area
+  const scale = fitToPage && layout && viewport.width > 0
+    ? Math.min(viewport.width / layout.pageWidth, viewport.height / layout.pageHeight)
+    : zoom / 100;
+
+  return (
+    <div ref={viewportRef} className="h-[600px] overflow-auto bg-gray-100 border-4 border-gray-200 rounded-lg">
+      {error && (
+        <div className="p-4 text-sm text-red-600">Could not render the document: {error}</div>
+      )}
+      <div
+        className="mx-auto overflow-hidden"
+        style={layout ? { width: layout.width * scale, height: layout.height * scale } : undefined}
+      >
+        <div
+          ref={contentRef}
+          className="certificate-preview"
+          style={{ width: "max-content", transform: `scale(${scale})`, transformOrigin: "top left" }}
+        />
+      </div>
     </div>
   );
 };
@@ -1044,12 +6634,30 @@ const CertificateGenerator: React.FC = () => {
   const [data, setData] = useState<CertificateData[]>([]);
   const [docxHtml, setDocxHtml] = useState<string>("");
   const [docxBinary, setDocxBinary] = useState<ArrayBuffer | null>(null);
+  const [templateType, setTemplateType] = useState<TemplateType>("docx");
+  const [previewMode, setPreviewMode] = useState<"exact" | "quick">("exact");
+  const [previewZoom, setPreviewZoom] = useState(100);
+  const [previewFit, setPreviewFit] = useState(true);
+  const [templateDelimiters, setTemplateDelimiters] = useState<TemplateDelimiters>(DEFAULT_DELIMITERS);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [uploadStatus, setUploadStatus] = useState<UploadStatus>({
     docx: false,
     excel: false,
   });
   const [placeholders, setPlaceholders] = useState<string[]>([]);
+  const [placeholderDetails, setPlaceholderDetails] = useState<PlaceholderInfo[]>([]);
+  const [validationPrompt, setValidationPrompt] = useState<{
+    reports: ValidationReport[];
+    unknownTemplates: UnknownTemplateValue[];
+    invalidRows: number[];
+    onProceed?: () => void;
+  } | null>(null);
+  const [templateColumn, setTemplateColumn] = useState("");
+  const [columnRules, setColumnRules] = useState<ColumnRules>({});
+  const [excludeInvalid, setExcludeInvalid] = useState(false);
+  // Templates other than the selected one that records asked for, by id
+  const [loadedTemplates, setLoadedTemplates] = useState<{ [id: string]: LoadedTemplate }>({});
+  const [templateLoadErrors, setTemplateLoadErrors] = useState<{ [id: string]: string }>({});
   const [excelColumns, setExcelColumns] = useState<string[]>([]);
   const [savedTemplates, setSavedTemplates] = useState<SavedTemplate[]>([]);
   const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(
@@ -1057,25 +6665,48 @@ const CertificateGenerator: React.FC = () => {
   );
   const [templateName, setTemplateName] = useState<string>("");
   const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [versionNote, setVersionNote] = useState("");
+  const [versionsTemplateId, setVersionsTemplateId] = useState<string | null>(null);
   const [showRangeDialog, setShowRangeDialog] = useState(false);
   const [rangeStart, setRangeStart] = useState(1);
   const [rangeEnd, setRangeEnd] = useState(1);
   const certRef = useRef<HTMLDivElement>(null);
+  const openingTemplateId = useRef<string | null>(null);
+  // The workbook the data was uploaded from, so saving keeps its other sheets
+  const sourceWorkbook = useRef<XLSX.WorkBook | null>(null);
   const excelInputRef = useRef<HTMLInputElement>(null);
   
   // UI State - sidebar collapsed by default
   const [sidebarCollapsed, setSidebarCollapsed] = useState(true);
   const [templateSearch, setTemplateSearch] = useState("");
+  const [templateSort, setTemplateSort] = useState<TemplateSort>("lastUsed");
+  const [templateCategoryFilter, setTemplateCategoryFilter] = useState("");
+  const [templateTagFilters, setTemplateTagFilters] = useState<string[]>([]);
+  const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [templateMenuId, setTemplateMenuId] = useState<string | null>(null);
+  const [detailsTemplateId, setDetailsTemplateId] = useState<string | null>(null);
+  const [mappingTemplateId, setMappingTemplateId] = useState<string | null>(null);
+  const [pendingPack, setPendingPack] = useState<TemplatePack | null>(null);
+  const [assets, setAssets] = useState<ImageAsset[]>([]);
   const [expandedSections, setExpandedSections] = useState({
     templates: true,
     status: true,
     placeholders: true,
-    columns: true
+    columns: true,
+    assets: true
   });
   
   // File System Access API handle
   const [excelFileHandle, setExcelFileHandle] = useState<FileSystemFileHandle | null>(null);
   const [originalFileName, setOriginalFileName] = useState<string>("");
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [columnTypes, setColumnTypes] = useState<ColumnTypes>({});
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    source: ImportSource;
+  } | null>(null);
+  // Dates in the data are read and shown in the selected template's language
+  const datasetLocale = getRecordFormat(savedTemplates.find(t => t.id === selectedTemplateId)).locale;
   
   const [filterColumn, setFilterColumn] = useState<string>("");
   const [filterValue, setFilterValue] = useState<string>("");
@@ -1091,6 +6722,23 @@ const CertificateGenerator: React.FC = () => {
   const [editableData, setEditableData] = useState<CertificateData[]>([]);
   const [newRowData, setNewRowData] = useState<CertificateData>({});
 
+  const templateCategories = Array.from(
+    new Set(savedTemplates.map(t => t.category || "").filter(Boolean)),
+  ).sort();
+  const templateTags = Array.from(
+    new Set(savedTemplates.flatMap(t => t.tags || [])),
+  ).sort();
+  const computedFieldNames = (savedTemplates.find(t => t.id === selectedTemplateId)?.computedFields || [])
+    .map(f => f.name);
+  const mappingTemplate = savedTemplates.find(t => t.id === mappingTemplateId);
+
+  const visibleTemplates = savedTemplates
+    .filter(t => matchesTemplateSearch(t, templateSearch))
+    .filter(t => !showFavoritesOnly || t.favorite)
+    .filter(t => !templateCategoryFilter || t.category === templateCategoryFilter)
+    .filter(t => templateTagFilters.every(tag => (t.tags || []).includes(tag)))
+    .sort(compareTemplates(templateSort));
+
   const toggleSection = (section: keyof typeof expandedSections) => {
     setExpandedSections(prev => ({
       ...prev,
@@ -1108,31 +6756,39 @@ const CertificateGenerator: React.FC = () => {
 
         if (templates.length > 0) {
           const first = templates[0];
-          setDocxHtml(first.html);
-          setDocxBinary(base64ToArrayBuffer(first.binary));
-          
-          // Clean placeholders when loading
-          const cleanedPlaceholders = first.placeholders
-            .map(p => p.replace(/<[^>]*>/g, '').trim())
-            .filter(p => p && p.length > 0 && p.length < 50)
-            .filter(p => !p.match(/^[0-9a-f]{8}[-]?[0-9a-f]{4}[-]?[0-9a-f]{4}[-]?[0-9a-f]{4}[-]?[0-9a-f]{12}$/i));
-          
-          setPlaceholders(cleanedPlaceholders);
-          setUploadStatus((prev) => ({ ...prev, docx: true }));
-          setSelectedTemplateId(first.id);
-          console.log(`🎯 Auto-loaded template: ${first.name}`);
+          try {
+            await openTemplate(first);
+            console.log(`🎯 Auto-loaded template: ${first.name}`);
+          } catch (error) {
+            console.error(`Error auto-loading template ${first.name}:`, error);
+          }
         }
 
+        const storedAssets = await getAllAssets();
+        setAssets(storedAssets);
+        console.log(`✅ Loaded ${storedAssets.length} asset(s)`);
+
         const excelData = await getExcelData();
         if (excelData) {
           setData(excelData.data);
           setEditableData(excelData.data);
           setExcelColumns(excelData.columns);
+          setSheetNames(excelData.sheetNames || []);
+          // Datasets stored before column types are typed from their values
+          setColumnTypes({
+            ...inferColumnTypes(excelData.data, excelData.columns),
+            ...excelData.columnTypes,
+          });
           setCurrentIndex(0);
           setRangeEnd(excelData.data.length);
           setUploadStatus((prev) => ({ ...prev, excel: true }));
           console.log(`✅ Loaded Excel: ${excelData.data.length} records`);
         }
+
+        const datasetSettings = await getDatasetSettings();
+        setTemplateColumn(datasetSettings.templateColumn || "");
+        setColumnRules(datasetSettings.columnRules || {});
+        setExcludeInvalid(datasetSettings.excludeInvalid || false);
       } catch (error) {
         console.error("Error loading data:", error);
       }
@@ -1140,179 +6796,80 @@ const CertificateGenerator: React.FC = () => {
     loadData();
   }, []);
 
-  const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
-    const bytes = new Uint8Array(buffer);
-    let binary = "";
-    const chunkSize = 0x8000;
-    for (let i = 0; i < bytes.length; i += chunkSize) {
-      const chunk = bytes.subarray(i, Math.min(i + chunkSize, bytes.length));
-      binary += String.fromCharCode.apply(null, Array.from(chunk));
-    }
-    return btoa(binary);
-  };
-
-  const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
-    const binaryString = atob(base64);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes.buffer;
-  };
-
-  const excelDateToJSDate = (serial: number): string => {
-    const utc_days = Math.floor(serial - 25569);
-    const utc_value = utc_days * 86400;
-    const date_info = new Date(utc_value * 1000);
-
-    const fractional_day = serial - Math.floor(serial) + 0.0000001;
-    let total_seconds = Math.floor(86400 * fractional_day);
-    const seconds = total_seconds % 60;
-    total_seconds -= seconds;
-    const hours = Math.floor(total_seconds / (60 * 60));
-    const minutes = Math.floor(total_seconds / 60) % 60;
-
-    const date = new Date(
-      date_info.getFullYear(),
-      date_info.getMonth(),
-      date_info.getDate(),
-      hours,
-      minutes,
-      seconds,
-    );
-
-    return date.toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
-  };
-
-  const processExcelData = (jsonData: CertificateData[]): CertificateData[] => {
-    return jsonData.map((row) => {
-      const processed: CertificateData = {};
-      Object.keys(row).forEach((key) => {
-        const value = row[key];
-        if (typeof value === "number" && value > 1 && value < 73050) {
-          processed[key] = excelDateToJSDate(value);
-        } else {
-          processed[key] = value;
-        }
-      });
-      return processed;
-    });
-  };
-
   const handleDocxUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    console.log("📄 Uploading DOCX file:", file.name, "Size:", file.size, "bytes");
+    console.log("📄 Uploading template file:", file.name, "Size:", file.size, "bytes");
 
     try {
       const arrayBuffer = await file.arrayBuffer();
       console.log("✅ File read successfully, buffer size:", arrayBuffer.byteLength);
+
+      const zip = new PizZip(arrayBuffer);
+      const type = getTemplateType(zip);
+      if (!type) {
+        alert("This file is not a Word (DOCX) or PowerPoint (PPTX) document.");
+        return;
+      }
       
       setDocxBinary(arrayBuffer);
+      setTemplateType(type);
       
-      // Generate HTML preview with mammoth
+      // Generate HTML preview with mammoth (Word) or from the slide XML (PowerPoint)
       try {
-        console.log("🔄 Converting to HTML with mammoth...");
-        const result = await mammoth.convertToHtml({ arrayBuffer: arrayBuffer.slice(0) });
-        console.log("✅ Mammoth conversion successful");
-        setDocxHtml(result.value);
-      } catch (mammothError) {
-        console.warn("⚠️ Mammoth conversion failed:", mammothError);
+        if (type === "pptx") {
+          console.log("🔄 Rendering slide preview...");
+          setDocxHtml(pptxToHtml(arrayBuffer));
+        } else {
+          console.log("🔄 Converting to HTML with mammoth...");
+          const result = await mammoth.convertToHtml({ arrayBuffer: arrayBuffer.slice(0) });
+          console.log("✅ Mammoth conversion successful");
+          setDocxHtml(result.value);
+        }
+      } catch (previewError) {
+        console.warn("⚠️ Preview conversion failed:", previewError);
         setDocxHtml("<p>Preview not available</p>");
       }
       
-      // Extract placeholders by scanning all XML files
-      console.log("🔄 Scanning all XML files for placeholders...");
-      const zip = new PizZip(arrayBuffer);
-      const xmlFiles = Object.keys(zip.files).filter(f => f.endsWith('.xml'));
-      
-      const placeholderSet = new Set<string>();
-      
-      xmlFiles.forEach(filename => {
-        const content = zip.files[filename].asText();
-        
-        // Find all {placeholder} patterns
-        const matches = content.match(/\{([^}]+)\}/g) || [];
-        matches.forEach(match => {
-          let placeholder = match.replace(/{|}/g, '').trim();
-          
-          // Remove ALL XML tags
-          placeholder = placeholder.replace(/<[^>]*>/g, '').trim();
-          
-          // Split by XML tag boundaries that might have been removed
-          const parts = placeholder.split(/[\s<>]+/);
-          parts.forEach(part => {
-            // Clean each part
-            const cleanPart = part.replace(/[^a-zA-Z0-9_\-]/g, '').trim();
-            if (cleanPart && cleanPart.length > 1 && cleanPart.length < 50) {
-              // Skip UUIDs and random strings
-              if (!cleanPart.match(/^[0-9a-f]{8}[-]?[0-9a-f]{4}[-]?[0-9a-f]{4}[-]?[0-9a-f]{4}[-]?[0-9a-f]{12}$/i)) {
-                placeholderSet.add(cleanPart);
-              }
-            }
-          });
-        });
-        
-        // Also look for patterns that might be split across XML elements
-        const textParts = content.split(/<[^>]*>/);
-        textParts.forEach(part => {
-          // Look for DATE_ISO patterns
-          if (part.includes('DATE_ISO') || part.includes('-DATE_ISO')) {
-            const words = part.match(/[a-zA-Z0-9_\-]+/g) || [];
-            words.forEach(word => {
-              if (word.includes('DATE_ISO') || word.includes('-DATE_ISO')) {
-                placeholderSet.add(word);
-              }
-            });
-          }
-          
-          // Look for simple word placeholders
-          const words = part.match(/[a-zA-Z_]+/g) || [];
-          words.forEach(word => {
-            if (word.length > 1 && word.length < 30 && 
-                !word.match(/^[0-9]+$/) &&
-                !word.match(/^(w:|r:|t:|p:|xml|rsid)/i)) {
-              placeholderSet.add(word);
-            }
-          });
-        });
-      });
-      
-      // Convert Set to Array and do final cleanup
-      let foundPlaceholders = Array.from(placeholderSet)
-        .filter(p => p && p.length > 0)
-        .filter(p => !p.match(/^(w:|r:|t:|p:|m:|v:|a:|o:|d:|wp|pic|rel)/i)) // Remove XML namespace prefixes
-        .filter(p => !p.match(/^[0-9a-f]{8}[-]?[0-9a-f]{4}[-]?[0-9a-f]{4}[-]?[0-9a-f]{4}[-]?[0-9a-f]{12}$/i)); // Remove UUIDs
-      
-      // Sort by length (shorter first) to prioritize real placeholders
-      foundPlaceholders.sort((a, b) => a.length - b.length);
-      
-      // Remove any that are substrings of others (e.g., "DATE" vs "DATE_ISO")
-      const uniquePlaceholders: string[] = [];
-      foundPlaceholders.forEach(p => {
-        if (!uniquePlaceholders.some(existing => existing.includes(p) && existing !== p)) {
-          uniquePlaceholders.push(p);
-        }
-      });
-      
-      console.log("📋 Final cleaned placeholders:", uniquePlaceholders);
-      
-      setPlaceholders(uniquePlaceholders);
+      // Extract placeholders with docxtemplater's own parser
+      console.log("🔄 Detecting placeholders...");
+      const delimiters = guessDelimiters(zip);
+      console.log("🔤 Guessed placeholder delimiters:", formatTag("name", delimiters));
+      detectTemplateTags(arrayBuffer, delimiters);
       setUploadStatus(prev => ({ ...prev, docx: true }));
       setSelectedTemplateId(null);
       
-      const baseName = file.name.replace(/\.docx$/i, '');
+      const baseName = file.name.replace(/\.(docx|pptx)$/i, '');
       setTemplateName(baseName);
       setShowSaveDialog(true);
       
     } catch (error) {
-      console.error("❌ Fatal error reading DOCX:", error);
-      alert(`Error reading DOCX file: ${error.message}. Please check the file format and try again.`);
+      console.error("❌ Fatal error reading template:", error);
+      alert(`Error reading template file: ${getErrorMessage(error)}. Please check the file format and try again.`);
+    }
+  };
+
+  // Used for uploads that are not saved yet, where the delimiters can still change
+  const detectTemplateTags = (buffer: ArrayBuffer, delimiters: TemplateDelimiters) => {
+    const details = detectPlaceholders(buffer, delimiters);
+    console.log("📋 Detected placeholders:", details);
+    setTemplateDelimiters(delimiters);
+    setPlaceholderDetails(details);
+    setPlaceholders(getPlaceholderNames(details));
+  };
+
+  const handleUploadDelimitersChange = (delimiters: TemplateDelimiters) => {
+    if (!docxBinary) return;
+    if (!delimiters.start.trim() || !delimiters.end.trim()) {
+      setTemplateDelimiters(delimiters);
+      return;
+    }
+    try {
+      detectTemplateTags(docxBinary, delimiters);
+    } catch (error) {
+      console.error("❌ Error detecting placeholders:", error);
+      setTemplateDelimiters(delimiters);
     }
   };
 
@@ -1325,55 +6882,307 @@ const CertificateGenerator: React.FC = () => {
       alert("No template to save");
       return;
     }
+    if (!templateDelimiters.start.trim() || !templateDelimiters.end.trim()) {
+      alert("Please enter both a start and an end delimiter");
+      return;
+    }
 
     try {
       console.log("💾 Starting to save template...");
       console.log("Template name:", templateName);
       console.log("Binary size:", docxBinary.byteLength, "bytes");
 
-      const base64 = arrayBufferToBase64(docxBinary);
-      console.log("✅ Base64 length:", base64.length);
-
-      const newTemplate: SavedTemplate = {
+      const version = {
         id: Date.now().toString(),
-        name: templateName,
-        html: docxHtml,
-        binary: base64,
         placeholders: placeholders,
+        placeholderDetails: placeholderDetails,
         uploadDate: new Date().toLocaleDateString(),
+        note: versionNote.trim() || undefined,
+        type: templateType,
       };
 
+      // Re-uploading under an existing name adds a version, keeping the id (and its counters)
+      const existing = savedTemplates.find(
+        t => t.name.toLowerCase() === templateName.trim().toLowerCase(),
+      );
+      // A new version with other delimiters changes them for the whole template
+      const newTemplate: SavedTemplate = existing
+        ? addTemplateVersion(
+            sameDelimiters(getTemplateDelimiters(existing), templateDelimiters)
+              ? existing
+              : await withDelimiters(existing, templateDelimiters),
+            version,
+          )
+        : withActiveVersion(withLibraryDefaults({
+            id: version.id,
+            name: templateName,
+            placeholders: version.placeholders,
+            placeholderDetails: version.placeholderDetails,
+            uploadDate: version.uploadDate,
+            type: version.type,
+            delimiters: templateDelimiters,
+            versions: [{ ...version, number: 1 }],
+            lastUsedAt: Date.now(),
+          }), version.id);
+
       console.log("💾 Saving to IndexedDB...");
-      await saveTemplate(newTemplate);
+      await saveTemplate(newTemplate, [{
+        templateId: newTemplate.id,
+        versionId: version.id,
+        binary: new Blob([docxBinary], { type: TEMPLATE_MIME_TYPES[templateType] }),
+        html: docxHtml,
+      }]);
       console.log("✅ Saved to IndexedDB successfully");
 
-      setSavedTemplates((prev) => [...prev, newTemplate]);
+      setSavedTemplates((prev) => existing
+        ? prev.map(t => t.id === newTemplate.id ? newTemplate : t)
+        : [...prev, newTemplate]);
       setShowSaveDialog(false);
+      setVersionNote("");
       setSelectedTemplateId(newTemplate.id);
 
       console.log("✅ Template saved completely!");
-      alert("Template saved successfully!");
+      alert(existing
+        ? `Saved as version ${getActiveVersion(newTemplate).number} of "${newTemplate.name}"`
+        : "Template saved successfully!");
     } catch (error) {
       console.error("❌ Error saving template:", error);
-      alert(`Error saving template: ${error}`);
+      alert(`Error saving template: ${getErrorMessage(error)}`);
     }
   };
 
-  const handleLoadTemplate = (template: SavedTemplate) => {
-    setDocxHtml(template.html);
-    setDocxBinary(base64ToArrayBuffer(template.binary));
-    
-    // Clean the placeholders when loading from saved template
-    const cleanedPlaceholders = template.placeholders
-      .map(p => p.replace(/<[^>]*>/g, '').trim())
-      .filter(p => p && p.length > 0 && p.length < 50)
-      .filter(p => !p.match(/^[0-9a-f]{8}[-]?[0-9a-f]{4}[-]?[0-9a-f]{4}[-]?[0-9a-f]{4}[-]?[0-9a-f]{12}$/i));
-    
-    setPlaceholders(cleanedPlaceholders);
+  // Template files are read from IndexedDB when a template is opened, not at startup.
+  // If another template is picked while one is loading, the later choice wins
+  const openTemplate = async (template: SavedTemplate) => {
+    openingTemplateId.current = template.id;
+    const loaded = await loadTemplateFile(template);
+    if (openingTemplateId.current !== template.id) return;
+
+    setDocxHtml(loaded.html);
+    setDocxBinary(loaded.binary);
+    setTemplateType(loaded.type);
+    setTemplateDelimiters(loaded.delimiters);
+    setPlaceholderDetails(loaded.placeholderDetails);
+    setPlaceholders(loaded.placeholders);
     setUploadStatus((prev) => ({ ...prev, docx: true }));
     setSelectedTemplateId(template.id);
   };
 
+  const handleLoadTemplate = async (template: SavedTemplate) => {
+    try {
+      await openTemplate(template);
+    } catch (error) {
+      console.error("Error loading template:", error);
+      alert(`Error loading template: ${getErrorMessage(error)}`);
+      return;
+    }
+
+    // Save the template as passed in - callers may hand us a newer copy than state holds
+    const lastUsedAt = Date.now();
+    saveTemplate({ ...template, lastUsedAt }).catch(error =>
+      console.error("Error recording template use:", error),
+    );
+    setSavedTemplates((prev) => prev.map(t => t.id === template.id ? { ...t, lastUsedAt } : t));
+  };
+
+  // Stored placeholder lists depend on the delimiters, so changing them re-detects every version
+  const withDelimiters = async (template: SavedTemplate, delimiters: TemplateDelimiters): Promise<SavedTemplate> => {
+    const files = await getTemplateFiles(template.id);
+    const versions = await Promise.all(getTemplateVersions(template).map(version =>
+      redetectVersion(version, files.find(f => f.versionId === version.id), delimiters)));
+    return withActiveVersion({ ...template, delimiters, versions }, getActiveVersion(template).id);
+  };
+
+  const handleUpdateTemplateLibrary = async (
+    id: string,
+    changes: Partial<Pick<SavedTemplate, "name" | "category" | "tags" | "favorite" | "lastUsedAt" | "qrUrlPattern" | "barcodeHeight" | "barcodeShowText" | "delimiters" | "locale" | "timeZone" | "localeColumn" | "timeZoneColumn" | "computedFields" | "fileNamePattern" | "columnMappings">>,
+  ) => {
+    const template = savedTemplates.find(t => t.id === id);
+    if (!template) return;
+
+    const { delimiters, ...rest } = changes;
+    const delimitersChanged = !!delimiters && !sameDelimiters(delimiters, getTemplateDelimiters(template));
+
+    try {
+      const updated = delimitersChanged
+        ? await withDelimiters({ ...template, ...rest }, delimiters)
+        : { ...template, ...rest };
+      await saveTemplate(updated);
+      setSavedTemplates((prev) => prev.map(t => t.id === id ? updated : t));
+
+      if (delimitersChanged && id === selectedTemplateId && docxBinary) {
+        const details = updated.placeholderDetails || [];
+        setTemplateDelimiters(delimiters);
+        setPlaceholderDetails(details);
+        setPlaceholders(getPlaceholderNames(details));
+      }
+    } catch (error) {
+      console.error("Error updating template:", error);
+      alert(`Error updating template: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleSaveTemplateDetails = (
+    id: string,
+    changes: TemplateDetailsChanges,
+  ) => {
+    if (!changes.name) {
+      alert("Please enter a template name");
+      return;
+    }
+    // Names identify templates for versioning, so they must stay unique
+    const clash = savedTemplates.some(
+      t => t.id !== id && t.name.toLowerCase() === changes.name.toLowerCase(),
+    );
+    if (clash) {
+      alert(`A template named "${changes.name}" already exists`);
+      return;
+    }
+    if (!changes.delimiters.start.trim() || !changes.delimiters.end.trim()) {
+      alert("Please enter both a start and an end delimiter");
+      return;
+    }
+    if (changes.locale && !isValidLocale(changes.locale)) {
+      alert(`"${changes.locale}" is not a valid language code (e.g. fr-FR)`);
+      return;
+    }
+    if (changes.timeZone && !isValidTimeZone(changes.timeZone)) {
+      alert(`"${changes.timeZone}" is not a valid time zone (e.g. Europe/Paris)`);
+      return;
+    }
+    const fieldError = changes.computedFields
+      .map((field, i) => getComputedFieldError(field, changes.computedFields.slice(0, i)))
+      .find(Boolean);
+    if (fieldError) {
+      alert(`Computed field error: ${fieldError}`);
+      return;
+    }
+    handleUpdateTemplateLibrary(id, changes);
+    setDetailsTemplateId(null);
+  };
+
+  const handleDuplicateTemplate = async (template: SavedTemplate) => {
+    let name = `${template.name} (copy)`;
+    for (let i = 2; savedTemplates.some(t => t.name.toLowerCase() === name.toLowerCase()); i++) {
+      name = `${template.name} (copy ${i})`;
+    }
+
+    const now = Date.now();
+    const copy: SavedTemplate = {
+      ...template,
+      id: now.toString(),
+      name,
+      favorite: false,
+      createdAt: now,
+      lastUsedAt: undefined,
+      uploadDate: new Date().toLocaleDateString(),
+    };
+
+    try {
+      const files = await getTemplateFiles(template.id);
+      await saveTemplate(copy, files.map(file => ({ ...file, templateId: copy.id })));
+      setSavedTemplates((prev) => [...prev, copy]);
+      console.log(`✅ Duplicated template as ${name}`);
+    } catch (error) {
+      console.error("Error duplicating template:", error);
+      alert(`Error duplicating template: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleActivateVersion = async (templateId: string, versionId: string) => {
+    const template = savedTemplates.find(t => t.id === templateId);
+    if (!template) return;
+
+    try {
+      const updated = withActiveVersion(template, versionId);
+      await saveTemplate(updated);
+      setSavedTemplates((prev) => prev.map(t => t.id === templateId ? updated : t));
+      if (selectedTemplateId === templateId) {
+        await handleLoadTemplate(updated);
+      }
+      console.log(`✅ Activated v${getActiveVersion(updated).number} of ${updated.name}`);
+    } catch (error) {
+      console.error("Error activating template version:", error);
+      alert(`Error activating version: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleExportTemplatePack = async (template: SavedTemplate) => {
+    try {
+      const blob = await createTemplatePack(template);
+      saveAs(blob, `${template.name.replace(/[\\/:*?"<>|]/g, "_")}.certpack`);
+    } catch (error) {
+      console.error("Error exporting template pack:", error);
+      alert(`Error exporting template: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleTemplatePackUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const pack = readTemplatePack(await file.arrayBuffer());
+      console.log(`📦 Read template pack: ${pack.template.name}`);
+      setPendingPack(pack);
+    } catch (error) {
+      console.error("Error reading template pack:", error);
+      alert(`Could not import template pack: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleImportTemplatePack = async (mode: PackImportMode) => {
+    if (!pendingPack) return;
+    const incoming = pendingPack.template;
+    const existing = savedTemplates.find(t => t.id === incoming.id);
+
+    // Versions added by a merge keep the tags they were written with, which the
+    // existing copy's delimiters won't fill
+    if (existing && mode === "merge") {
+      const ours = getTemplateDelimiters(existing);
+      const theirs = getTemplateDelimiters(incoming);
+      if (!sameDelimiters(ours, theirs) && !confirm(
+        `The pack's template writes placeholders as ${formatTag("name", theirs)}, but your copy uses ${formatTag("name", ours)}. ` +
+        `Merged versions will be read with ${formatTag("name", ours)} and their ${formatTag("name", theirs)} tags won't be filled. Merge anyway?`,
+      )) return;
+    }
+
+    try {
+      let imported = existing && mode === "merge"
+        ? await mergeTemplatePack(existing, incoming, pendingPack.files)
+        : incoming;
+
+      // Names must stay unique, so a clash with a different template gets a suffix
+      if (savedTemplates.some(t => t.id !== imported.id && t.name.toLowerCase() === imported.name.toLowerCase())) {
+        imported = { ...imported, name: `${imported.name} (imported)` };
+      }
+
+      // Merging only adds the files of versions this copy doesn't have; replacing
+      // removes the files of versions the pack doesn't have once it is saved
+      const files = existing && mode === "merge"
+        ? pendingPack.files.filter(f => !getTemplateVersions(existing).some(v => v.id === f.versionId))
+        : pendingPack.files;
+      await saveTemplate(imported, files);
+      if (existing && mode === "replace") {
+        const keep = getTemplateVersions(imported).map(v => v.id);
+        await deleteTemplateFiles(existing.id, getTemplateVersions(existing).map(v => v.id).filter(id => !keep.includes(id)));
+      }
+      importTemplateCounters(imported.id, pendingPack.counters, mode);
+      setSavedTemplates((prev) => existing
+        ? prev.map(t => t.id === imported.id ? imported : t)
+        : [...prev, imported]);
+      if (selectedTemplateId === imported.id) {
+        await handleLoadTemplate(imported);
+      }
+      setPendingPack(null);
+      alert(`Template "${imported.name}" imported`);
+    } catch (error) {
+      console.error("Error importing template pack:", error);
+      alert(`Error importing template: ${getErrorMessage(error)}`);
+    }
+  };
+
   const handleDeleteTemplate = async (id: string) => {
     if (!confirm("Are you sure you want to delete this template?")) return;
 
@@ -1385,6 +7194,7 @@ const CertificateGenerator: React.FC = () => {
         setDocxHtml("");
         setDocxBinary(null);
         setPlaceholders([]);
+        setPlaceholderDetails([]);
         setUploadStatus((prev) => ({ ...prev, docx: false }));
         setSelectedTemplateId(null);
       }
@@ -1394,6 +7204,38 @@ const CertificateGenerator: React.FC = () => {
     }
   };
 
+  const handleAssetUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    for (const file of files) {
+      try {
+        const asset = await readImageAsset(file);
+        // Re-uploading an image with the same name replaces it
+        const existing = findAsset(assets, asset.name);
+        const stored = existing ? { ...asset, id: existing.id } : asset;
+        await saveAsset(stored);
+        setAssets(prev => [...prev.filter(a => a.id !== stored.id), stored]);
+        console.log(`✅ Asset saved: ${stored.name} (${stored.width}×${stored.height})`);
+      } catch (error) {
+        console.error("Error saving asset:", error);
+        alert(`Could not add ${file.name}: ${getErrorMessage(error)}`);
+      }
+    }
+  };
+
+  const handleDeleteAsset = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this image?")) return;
+
+    try {
+      await deleteAsset(id);
+      setAssets(prev => prev.filter(a => a.id !== id));
+      console.log("✅ Asset deleted");
+    } catch (error) {
+      console.error("Error deleting asset:", error);
+    }
+  };
+
   const handleDeleteExcel = async () => {
     if (!confirm("Are you sure you want to remove the uploaded Excel data?"))
       return;
@@ -1419,6 +7261,9 @@ const CertificateGenerator: React.FC = () => {
       setNewRowData({});
       setExcelFileHandle(null);
       setOriginalFileName("");
+      setSheetNames([]);
+      setColumnTypes({});
+      sourceWorkbook.current = null;
       if (excelInputRef.current) {
         excelInputRef.current.value = "";
       }
@@ -1428,59 +7273,60 @@ const CertificateGenerator: React.FC = () => {
     }
   };
 
+  // Every upload goes through the import preview before it replaces the data
   const handleExcelUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     try {
-      // Store original filename
-      setOriginalFileName(file.name);
-      
-      // Reset file handle when uploading new file
-      setExcelFileHandle(null);
+      const source = await readImportSource(file);
+      setPendingImport({ fileName: file.name, source });
+    } catch (error) {
+      console.error("Error reading data file:", error);
+      alert(`Could not read ${file.name}: ${getErrorMessage(error)}`);
+    } finally {
+      if (excelInputRef.current) {
+        excelInputRef.current.value = "";
+      }
+    }
+  };
 
-      // Parse the file as usual
-      const reader = new FileReader();
-      reader.onload = async (evt) => {
-        try {
-          const bstr = evt.target?.result;
-          const wb = XLSX.read(bstr, { type: "binary" });
-          const wsname = wb.SheetNames[0];
-          const ws = wb.Sheets[wsname];
-          const jsonData = XLSX.utils.sheet_to_json(ws) as CertificateData[];
-
-          if (jsonData.length > 0) {
-            const processedData = processExcelData(jsonData);
-            const columns = Object.keys(jsonData[0]);
-
-            setData(processedData);
-            setEditableData(processedData);
-            setExcelColumns(columns);
-            setCurrentIndex(0);
-            setRangeEnd(processedData.length);
-            setUploadStatus((prev) => ({ ...prev, excel: true }));
-
-            setIsFiltered(false);
-            setFilterColumn("");
-            setFilterValue("");
-            setFilteredData([]);
-            setFilterConditions([]);
-            setTempFilterConditions([]);
-
-            await saveExcelData(processedData, columns);
-            console.log(
-              `✅ Loaded and saved Excel: ${processedData.length} records`,
-            );
-          }
-        } catch (error) {
-          console.error("Error reading Excel:", error);
-          alert("Error reading Excel file. Please try again.");
-        }
-      };
-      reader.readAsBinaryString(file);
+  const handleImportData = async (dataset: ImportedDataset) => {
+    if (!pendingImport) return;
+    const { fileName, source } = pendingImport;
+    // Values are stored as read; column types decide how they are shown and rendered
+    const { rows, columns, sheetNames, columnTypes: types } = dataset;
+
+    // Store original filename; a new file needs its own write permission
+    setOriginalFileName(fileName);
+    setExcelFileHandle(null);
+    sourceWorkbook.current = source.kind === "workbook" ? source.workbook : null;
+    setSheetNames(sheetNames);
+    setColumnTypes(types);
+    setPendingImport(null);
+
+    setData(rows);
+    setEditableData(rows);
+    setExcelColumns(columns);
+    setCurrentIndex(0);
+    setRangeEnd(rows.length);
+    setUploadStatus((prev) => ({ ...prev, excel: true }));
+
+    setIsFiltered(false);
+    setFilterColumn("");
+    setFilterValue("");
+    setFilteredData([]);
+    setFilterConditions([]);
+    setTempFilterConditions([]);
+
+    try {
+      await saveExcelData(rows, columns, sheetNames, types);
+      console.log(
+        `✅ Loaded and saved ${fileName}: ${rows.length} records${sheetNames.length > 0 ? ` from ${sheetNames.join(", ")}` : ""}`,
+      );
     } catch (error) {
-      console.error("Error in Excel upload:", error);
-      alert("Error uploading Excel file.");
+      console.error("Error saving data:", error);
+      alert(`The data is loaded but could not be stored: ${getErrorMessage(error)}`);
     }
   };
 
@@ -1500,7 +7346,9 @@ const CertificateGenerator: React.FC = () => {
           description: 'Excel Files',
           accept: {
             'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
-            'application/vnd.ms-excel': ['.xls']
+            'application/vnd.ms-excel.sheet.macroEnabled.12': ['.xlsm'],
+            'application/vnd.ms-excel': ['.xls'],
+            'application/vnd.oasis.opendocument.spreadsheet': ['.ods']
           }
         }]
       });
@@ -1527,14 +7375,37 @@ const CertificateGenerator: React.FC = () => {
     return buf;
   };
 
-  // Save changes using File System Access API
-  const handleSaveExcelChanges = async () => {
+  // The original file is re-read when we can write to it, so sheets edited outside the
+  // app since the upload aren't overwritten with stale copies
+  const readSourceWorkbook = async (): Promise<XLSX.WorkBook> => {
+    if (excelFileHandle) {
+      try {
+        return XLSX.read(await (await excelFileHandle.getFile()).arrayBuffer(), { cellNF: true });
+      } catch (error) {
+        console.warn("⚠️ Could not re-read the original workbook:", error);
+      }
+    }
+    return sourceWorkbook.current || XLSX.utils.book_new();
+  };
+
+  // Save changes using File System Access API. Takes the editor's data, as state set
+  // in the same save hasn't been applied yet
+  const handleSaveExcelChanges = async (rows: CertificateData[], columns: string[], types: ColumnTypes) => {
     try {
-      // Create Excel file from edited data
-      const ws = XLSX.utils.json_to_sheet(editableData);
-      const wb = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(wb, ws, "Sheet1");
-      const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'binary' });
+      // Write the edited data back to the sheets it was read from
+      const wb = await readSourceWorkbook();
+      writeDatasetSheets(wb, rows, columns, sheetNames, types, datasetLocale);
+      // CSV and JSON imports are saved as a workbook of the same name
+      const saveName = /\.(xlsx|xlsm|xls|ods)$/i.test(originalFileName)
+        ? originalFileName
+        : `${originalFileName.replace(/\.[^.]+$/, "") || "data"}.xlsx`;
+      // The original file keeps its own format, so an .ods or .xls stays readable
+      const extension = saveName.split(".").pop()!.toLowerCase();
+      const bookType: XLSX.BookType = extension === "xls" ? "biff8"
+        : extension === "ods" ? "ods"
+        : extension === "xlsm" ? "xlsm"
+        : "xlsx";
+      const wbout = XLSX.write(wb, { bookType, type: 'binary' });
       const buffer = s2ab(wbout);
 
       if (excelFileHandle && 'showSaveFilePicker' in window) {
@@ -1565,167 +7436,334 @@ const CertificateGenerator: React.FC = () => {
         } catch (writeError) {
           console.error("Write error:", writeError);
           // Fallback to download
-          XLSX.writeFile(wb, originalFileName || 'data.xlsx');
+          XLSX.writeFile(wb, saveName, { bookType });
           alert(`⚠️ Could not save directly. File downloaded instead.`);
         }
       } else {
         // No file handle - use download
-        XLSX.writeFile(wb, originalFileName || 'data.xlsx');
-        alert(`✅ File downloaded as: ${originalFileName || 'data.xlsx'}`);
+        XLSX.writeFile(wb, saveName, { bookType });
+        alert(`✅ File downloaded as: ${saveName}`);
       }
-
-      // Update app data regardless
-      setData(editableData);
-      await saveExcelData(editableData, excelColumns);
-      setShowExcelEditor(false);
-
     } catch (error) {
       console.error("Error saving Excel:", error);
       alert("Error saving file. Please try again.");
     }
   };
 
+  // The selected template (or an upload not saved yet) in the form the renderers take
+  const currentTemplate = useMemo((): LoadedTemplate | null => docxBinary ? {
+    template: savedTemplates.find(t => t.id === selectedTemplateId),
+    binary: docxBinary,
+    html: docxHtml,
+    type: templateType,
+    delimiters: templateDelimiters,
+    placeholderDetails,
+    placeholders,
+  } : null, [docxBinary, savedTemplates, selectedTemplateId, docxHtml, templateType, templateDelimiters, placeholderDetails, placeholders]);
+
+  // Checked against the loaded data, since a tag like {Score (%)} is only an
+  // expression when no column has that name
+  const templateErrors = useMemo((): TemplateIssue[] => currentTemplate
+    ? getTemplateErrors(currentTemplate.binary, currentTemplate.delimiters, getPlainTagNames(excelColumns, currentTemplate.template))
+    : [], [currentTemplate, excelColumns]);
+
+  // Per-record templates - the template column names a saved template or tag for each
+  // record; records with no value there use the selected template
+  const activeTemplateColumn = excelColumns.includes(templateColumn) ? templateColumn : "";
+
+  const getRecordTemplateValue = (record: CertificateData): string =>
+    activeTemplateColumn ? (record[activeTemplateColumn]?.toString() || "").trim() : "";
+
+  const findRecordTemplate = (record: CertificateData): SavedTemplate | undefined =>
+    findTemplateForValue(savedTemplates, getRecordTemplateValue(record), selectedTemplateId);
+
+  // A cached template only counts while its library entry hasn't changed since it was read
+  const getLoadedTemplate = (template: SavedTemplate | undefined): LoadedTemplate | null => {
+    if (!template || template.id === selectedTemplateId) return currentTemplate;
+    const cached = loadedTemplates[template.id];
+    return cached?.template === template ? cached : null;
+  };
+
+  // The settings are stored together, so changing one keeps the others
+  const updateDatasetSettings = (changes: DatasetSettings) => {
+    saveDatasetSettings({ templateColumn: templateColumn || undefined, columnRules, excludeInvalid, ...changes }).catch(error =>
+      console.error("Error saving dataset settings:", error),
+    );
+  };
+
+  const handleTemplateColumnChange = (column: string) => {
+    setTemplateColumn(column);
+    updateDatasetSettings({ templateColumn: column || undefined });
+  };
+
+  const handleExcludeInvalidChange = (exclude: boolean) => {
+    setExcludeInvalid(exclude);
+    updateDatasetSettings({ excludeInvalid: exclude });
+  };
+
+  // Row numbers (from 1) of the records that break a column rule
+  const rowsBreakingRules = useMemo(
+    () => new Set(validateRecords(data, excelColumns, columnRules, columnTypes, datasetLocale).map(v => v.row + 1)),
+    [data, excelColumns, columnRules, columnTypes, datasetLocale],
+  );
+
+  // A chosen type is stored with the dataset; the values themselves don't change
+  const handleColumnTypeChange = (column: string, type: ColumnType) => {
+    const types = { ...columnTypes, [column]: type };
+    setColumnTypes(types);
+    saveExcelData(data, excelColumns, sheetNames, types).catch(error =>
+      console.error("Error saving column types:", error),
+    );
+  };
+
+  // Pairs each record with the template it renders with, reading the files of templates
+  // not loaded yet. Records whose value matches no template are listed instead
+  const prepareRecords = async (records: CertificateData[]): Promise<{
+    jobs: CertificateJob[];
+    unknownTemplates: UnknownTemplateValue[];
+    invalidRows: number[];
+  }> => {
+    const rowNumbers = new Map(data.map((record, idx) => [record, idx + 1]));
+    const invalid = records.map(record => rowNumbers.get(record) || 0).filter(row => rowsBreakingRules.has(row));
+    // Records breaking a column rule are dropped here when the dataset is set to skip them
+    const included = excludeInvalid ? records.filter(record => !rowsBreakingRules.has(rowNumbers.get(record) || 0)) : records;
+    const assigned = included.map(record => ({
+      record,
+      row: rowNumbers.get(record) || 0,
+      value: getRecordTemplateValue(record),
+      template: findRecordTemplate(record),
+    }));
+
+    const missing = Array.from(new Set(assigned.map(a => a.template)))
+      .filter((t): t is SavedTemplate => !!t && !getLoadedTemplate(t));
+    const fresh = await Promise.all(missing.map(loadTemplateFile));
+    if (fresh.length > 0) {
+      setLoadedTemplates(prev => ({ ...prev, ...Object.fromEntries(missing.map((t, idx) => [t.id, fresh[idx]])) }));
+      console.log(`📚 Loaded ${fresh.length} more template(s) for these records`);
+    }
+
+    const jobs: CertificateJob[] = [];
+    const unknown = new Map<string, number[]>();
+    assigned.forEach(({ record, row, value, template }) => {
+      if (value && !template) {
+        const rows = unknown.get(value);
+        if (rows) rows.push(row);
+        else unknown.set(value, [row]);
+        return;
+      }
+      const freshIdx = template ? missing.indexOf(template) : -1;
+      const loaded = freshIdx >= 0 ? fresh[freshIdx] : getLoadedTemplate(template);
+      if (!loaded) throw new Error("No template loaded");
+      jobs.push({ record, row, loaded });
+    });
+    return {
+      jobs,
+      unknownTemplates: Array.from(unknown, ([value, rows]) => ({ value, rows })),
+      invalidRows: invalid,
+    };
+  };
+
+  // Resolves tags exactly where docxtemplater would - only between the template's
+  // delimiters, with the same data and parser - and leaves anything it cannot
+  // resolve (sections, unknown tags) visible
   const mergeCertificate = (
-    template: string,
+    loaded: LoadedTemplate,
     record: CertificateData,
   ): string => {
-    let merged = template;
-    Object.keys(record).forEach((key) => {
-      const value = record[key]?.toString() || "";
-      merged = merged.replace(new RegExp(`\\{${key}\\}`, "gi"), value);
-      merged = merged.replace(new RegExp(`\\{\\{${key}\\}\\}`, "gi"), value);
-      merged = merged.replace(new RegExp(`\\[${key}\\]`, "gi"), value);
+    const { template } = loaded;
+    const settings: ImageTagSettings = template || {};
+    const format = getRecordFormat(template, record);
+    // Certificate numbers are peeked, not consumed, so previewing doesn't advance the counter
+    const templateData = buildTemplateData(
+      record,
+      loaded.placeholders,
+      peekNextCertificateNumber(template?.id || ""),
+      format,
+      template?.computedFields,
+      template?.columnMappings,
+      columnTypes,
+    );
+    const lookup = (name: string) => {
+      const value = evaluateTag(name, templateData, format);
+      return value === undefined || value === null ? undefined : String(value).trim();
+    };
+
+    const resolveTag = (tag: string): string | undefined => {
+      if (/^[#^/]/.test(tag)) return undefined;
+      // {%tag} becomes the matching asset-library image
+      if (tag.startsWith("%")) {
+        const name = tag.slice(1).trim();
+        const value = lookup(name);
+        const asset = value === undefined ? findAsset(assets, name) : findAsset(assets, value);
+        return asset ? getImageHtml(asset, fitImageToBox(asset, DEFAULT_IMAGE_BOX)) : "";
+      }
+      // {QR:field} and {BARCODE:field} show the same codes the DOCX will contain
+      if (QR_TAG_PATTERN.test(tag)) {
+        const value = lookup(tag.replace(QR_TAG_PATTERN, "").trim());
+        if (!value) return "";
+        const qr = createQrImage(composeQrText(settings.qrUrlPattern, value, lookup), "preview");
+        return getImageHtml(qr, fitImageToBox(qr, DEFAULT_IMAGE_BOX));
+      }
+      const barcodeTag = tag.match(BARCODE_TAG_PATTERN);
+      if (barcodeTag) {
+        const value = lookup(tag.replace(BARCODE_TAG_PATTERN, "").trim());
+        if (!value) return "";
+        const format: BarcodeFormat = barcodeTag[1] === "39" ? "CODE39" : "CODE128";
+        const barcode = createBarcodeImage(value, format, settings.barcodeShowText !== false, "preview");
+        return barcode ? getImageHtml(barcode, fitImageToBox(barcode, getBarcodeBox(DEFAULT_IMAGE_BOX, settings))) : "";
+      }
+      const value = evaluateTag(tag, templateData, format);
+      return value === undefined || value === null ? undefined : escapeXml(String(value));
+    };
+
+    return loaded.html.replace(getPreviewTagPattern(loaded.delimiters), (match, content: string) => {
+      const html = resolveTag(unescapeXml(content).trim());
+      return html === undefined ? match : html;
     });
-    return merged;
   };
 
-  const generateDocx = (record: CertificateData): Blob => {
-    if (!docxBinary) throw new Error("No template loaded");
+  const generateDocx = (
+    record: CertificateData,
+    fallbackName: string,
+    loaded: LoadedTemplate,
+  ): GeneratedCertificate => {
+    const { template, type } = loaded;
 
-    console.log("🎯 Generating DOCX with placeholders:", placeholders);
+    console.log(`🎯 Generating ${type.toUpperCase()} with placeholders:`, loaded.placeholders);
     console.log("📊 Current record:", record);
 
-    const zip = new PizZip(docxBinary);
-    const doc = new Docxtemplater(zip, {
-      paragraphLoop: true,
-      linebreaks: true,
-      nullGetter: () => "",
-    });
+    const templateName = template?.name || 'Certificate';
+
+    const { zip, templateData, format } = renderCertificate(
+      {
+        binary: loaded.binary,
+        template,
+        delimiters: loaded.delimiters,
+        placeholders: loaded.placeholders,
+        assets,
+        columnTypes,
+      },
+      record,
+      () => {
+        const certNumber = getNextCertificateNumber(
+          template?.id || 'temp_' + Date.now(),
+          templateName
+        );
+        console.log("🔢 Generated certificate number:", certNumber);
+        return certNumber;
+      },
+    );
 
-    const templateData: { [key: string]: string } = {};
+    console.log("🌐 Locale:", format.locale, "Time zone:", format.timeZone || "browser");
+    console.log("📦 Final template data:", templateData);
 
-    const now = new Date();
-    templateData["TODAY"] = now.toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
+    // Without a pattern the name column is used, which may also be a computed field
+    const pattern = template?.fileNamePattern?.trim();
+    const baseName = (pattern
+      ? formatFileName(pattern, templateData, format)
+      : (templateData.name || templateData.Name || "").replace(/[\\/:*?"<>|]/g, "_").trim()) || fallbackName;
+
+    return {
+      blob: zip.generate({
+        type: "blob",
+        mimeType: TEMPLATE_MIME_TYPES[type],
+      }),
+      fileName: `${baseName}.${type}`,
+    };
+  };
+
+  // One report per template, each checked against the records that use it
+  const getValidationReports = (jobs: CertificateJob[]): ValidationReport[] => {
+    const groups = new Map<LoadedTemplate, CertificateJob[]>();
+    jobs.forEach(job => {
+      const group = groups.get(job.loaded);
+      if (group) group.push(job);
+      else groups.set(job.loaded, [job]);
     });
-    templateData["DATE"] = now.toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
+    return Array.from(groups, ([loaded, group]) => {
+      const report = buildValidationReport(
+        loaded.placeholderDetails,
+        excelColumns,
+        group.map(({ row, record }) => ({ row, record })),
+        getTemplateErrors(loaded.binary, loaded.delimiters, getPlainTagNames(excelColumns, loaded.template)),
+        assets,
+        loaded.template,
+      );
+      // The template column is read for every record
+      return {
+        ...report,
+        templateName: loaded.template?.name,
+        delimiters: loaded.delimiters,
+        unusedColumns: report.unusedColumns.filter(col => col !== activeTemplateColumn),
+      };
     });
-    templateData["DATE_SHORT"] = now.toLocaleDateString("en-US");
-    templateData["DATE_ISO"] = now.toISOString().split("T")[0];
-    templateData["YEAR"] = now.getFullYear().toString();
-    templateData["MONTH"] = (now.getMonth() + 1).toString().padStart(2, "0");
-    templateData["DAY"] = now.getDate().toString().padStart(2, "0");
-    
-    const templateName = selectedTemplateId 
-      ? savedTemplates.find(t => t.id === selectedTemplateId)?.name || 'Certificate'
-      : 'Certificate';
-    
-    const certNumber = getNextCertificateNumber(
-      selectedTemplateId || 'temp_' + Date.now(),
-      templateName
-    );
-    
-    console.log("🔢 Generated certificate number:", certNumber);
+  };
 
-    // Process each placeholder
-    placeholders.forEach((placeholder) => {
-      console.log("🔍 Processing placeholder:", placeholder);
-      
-      // Handle _UPPER suffix
-      if (placeholder.endsWith("_UPPER")) {
-        const baseName = placeholder.replace("_UPPER", "");
-        const matchingKey = Object.keys(record).find(
-          (key) => key.toLowerCase() === baseName.toLowerCase(),
-        );
-        if (matchingKey) {
-          templateData[placeholder] =
-            record[matchingKey]?.toString().toUpperCase() || "";
-          console.log(`✅ Mapped ${placeholder} to uppercase:`, templateData[placeholder]);
-        }
-      }
-      // Handle ANY placeholder that contains DATE_ISO (with underscore)
-      else if (placeholder.includes("DATE_ISO")) {
-        console.log(`🎯 Found DATE_ISO placeholder: ${placeholder} -> using cert number: ${certNumber}`);
-        templateData[placeholder] = certNumber;
-      }
-      // Regular placeholder from Excel data
-      else {
-        // Try exact match first
-        let matchingKey = Object.keys(record).find(
-          (key) => key === placeholder
-        );
-        
-        // If no exact match, try case-insensitive match
-        if (!matchingKey) {
-          matchingKey = Object.keys(record).find(
-            (key) => key.toLowerCase() === placeholder.toLowerCase()
-          );
-        }
-        
-        if (matchingKey) {
-          templateData[placeholder] = record[matchingKey]?.toString() || "";
-          console.log(`✅ Mapped ${placeholder} to:`, templateData[placeholder]);
-        } else {
-          console.log(`⚠️ No match found for placeholder: ${placeholder}`);
-        }
+  // Generates straight away when everything checks out, otherwise shows the report first.
+  // Template errors block generation; data problems can be overridden, and records
+  // without a matching template are skipped
+  const withValidation = async (records: CertificateData[], generate: (jobs: CertificateJob[]) => void) => {
+    try {
+      const { jobs, unknownTemplates, invalidRows } = await prepareRecords(records);
+      const reports = getValidationReports(jobs);
+      const generateJobs = () => generate(jobs);
+      if (!reports.some(hasValidationIssues) && unknownTemplates.length === 0 && invalidRows.length === 0) {
+        generateJobs();
+        return;
       }
-    });
-
-    console.log("📦 Final template data:", templateData);
-    
-    doc.render(templateData);
-    return doc.getZip().generate({
-      type: "blob",
-      mimeType:
-        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    });
+      setValidationPrompt({
+        reports,
+        unknownTemplates,
+        invalidRows,
+        onProceed: jobs.length > 0 && reports.every(r => r.templateErrors.length === 0) ? generateJobs : undefined,
+      });
+    } catch (error) {
+      console.error("Error loading templates:", error);
+      alert(`Error loading template: ${getErrorMessage(error)}`);
+    }
   };
 
-  const handleDownloadCurrent = () => {
+  const handleValidate = async () => {
     try {
-      const record = isFiltered && filteredData.length > 0 
-        ? filteredData[filteredIndex] 
-        : data[currentIndex];
-      const blob = generateDocx(record);
-      const name =
-        record.name ||
-        record.Name ||
-        `certificate_${isFiltered ? filteredIndex + 1 : currentIndex + 1}`;
-      saveAs(blob, `${name}.docx`);
+      const { jobs, unknownTemplates, invalidRows } = await prepareRecords(
+        isFiltered && filteredData.length > 0 ? filteredData : data,
+      );
+      setValidationPrompt({ reports: getValidationReports(jobs), unknownTemplates, invalidRows });
     } catch (error) {
-      console.error("Error generating DOCX:", error);
-      alert("Error generating certificate.");
+      console.error("Error loading templates:", error);
+      alert(`Error loading template: ${getErrorMessage(error)}`);
     }
   };
 
+  const handleDownloadCurrent = () => {
+    const record = isFiltered && filteredData.length > 0 
+      ? filteredData[filteredIndex] 
+      : data[currentIndex];
+    withValidation([record], jobs => jobs.forEach(({ row, loaded }) => {
+      try {
+        const { blob, fileName } = generateDocx(record, `certificate_${row}`, loaded);
+        saveAs(blob, fileName);
+      } catch (error) {
+        console.error("Error generating certificate:", error);
+        alert("Error generating certificate.");
+      }
+    }));
+  };
+
   const handleDownloadAll = () => {
     const dataToDownload = isFiltered && filteredData.length > 0 ? filteredData : data;
     
-    dataToDownload.forEach((record, idx) => {
-      setTimeout(() => {
-        try {
-          const blob = generateDocx(record);
-          const name = record.name || record.Name || `certificate_${idx + 1}`;
-          saveAs(blob, `${name}.docx`);
-        } catch (error) {
-          console.error(`Error generating certificate ${idx + 1}:`, error);
-        }
-      }, idx * 500);
+    withValidation(dataToDownload, jobs => {
+      jobs.forEach(({ record, row, loaded }, idx) => {
+        setTimeout(() => {
+          try {
+            const { blob, fileName } = generateDocx(record, `certificate_${row}`, loaded);
+            saveAs(blob, fileName);
+          } catch (error) {
+            console.error(`Error generating certificate ${row}:`, error);
+          }
+        }, idx * 500);
+      });
     });
   };
 
@@ -1734,21 +7772,32 @@ const CertificateGenerator: React.FC = () => {
       alert("Invalid range.");
       return;
     }
-    for (let i = rangeStart - 1; i < rangeEnd; i++) {
-      setTimeout(
-        () => {
-          try {
-            const blob = generateDocx(data[i]);
-            const name = data[i].name || data[i].Name || `certificate_${i + 1}`;
-            saveAs(blob, `${name}.docx`);
-          } catch (error) {
-            console.error(`Error generating certificate ${i + 1}:`, error);
-          }
-        },
-        (i - rangeStart + 1) * 500,
-      );
-    }
     setShowRangeDialog(false);
+    withValidation(data.slice(rangeStart - 1, rangeEnd), jobs => {
+      jobs.forEach(({ record, row, loaded }, idx) => {
+        setTimeout(
+          () => {
+            try {
+              const { blob, fileName } = generateDocx(record, `certificate_${row}`, loaded);
+              saveAs(blob, fileName);
+            } catch (error) {
+              console.error(`Error generating certificate ${row}:`, error);
+            }
+          },
+          idx * 500,
+        );
+      });
+    });
+  };
+
+  // Computed fields of the selected template can be filtered on like columns, and
+  // columns are compared as they print, so a date filter reads "January 5, 2024"
+  const getFieldValue = (record: CertificateData, column: string): string => {
+    const template = savedTemplates.find(t => t.id === selectedTemplateId);
+    const fields = template?.computedFields || [];
+    const format = getRecordFormat(template, record);
+    if (!fields.some(f => f.name === column)) return formatColumnValue(record[column], columnTypes[column], format.locale);
+    return buildTemplateData(record, [], "", format, fields, template?.columnMappings, columnTypes)[column] || '';
   };
 
   const applyFilters = (conditions: FilterCondition[]): CertificateData[] => {
@@ -1756,7 +7805,7 @@ const CertificateGenerator: React.FC = () => {
     
     return data.filter(record => {
       return conditions.every(condition => {
-        const recordValue = record[condition.column]?.toString() || '';
+        const recordValue = getFieldValue(record, condition.column);
         return recordValue.toLowerCase() === condition.value.toLowerCase();
       });
     });
@@ -1823,7 +7872,7 @@ const CertificateGenerator: React.FC = () => {
     setFilteredData([]);
 
     const values = Array.from(
-      new Set(data.map((row) => row[column]?.toString()).filter(Boolean)),
+      new Set(data.map((row) => getFieldValue(row, column)).filter(Boolean)),
     );
 
     setUniqueValues(values as string[]);
@@ -1846,17 +7895,18 @@ const CertificateGenerator: React.FC = () => {
       return;
     }
 
-    filtered.forEach((record, idx) => {
-      setTimeout(() => {
-        try {
-          const blob = generateDocx(record);
-          const filterStr = conditions.map(c => c.value).join('_');
-          const name = record.name || record.Name || `${filterStr}_${idx + 1}`;
-          saveAs(blob, `${name}.docx`);
-        } catch (error) {
-          console.error(`Error generating certificate ${idx + 1}:`, error);
-        }
-      }, idx * 400);
+    withValidation(filtered, jobs => {
+      jobs.forEach(({ record, row, loaded }, idx) => {
+        setTimeout(() => {
+          try {
+            const filterStr = conditions.map(c => c.value).join('_');
+            const { blob, fileName } = generateDocx(record, `${filterStr}_${row}`, loaded);
+            saveAs(blob, fileName);
+          } catch (error) {
+            console.error(`Error generating certificate ${row}:`, error);
+          }
+        }, idx * 400);
+      });
     });
   };
 
@@ -1908,16 +7958,27 @@ const CertificateGenerator: React.FC = () => {
     printWindow.print();
   };
 
-  const handlePrintAll = () => {
+  const handlePrintAll = async () => {
     const printWindow = window.open("", "", "width=800,height=600");
     if (!printWindow) return;
     
     const dataToPrint = isFiltered && filteredData.length > 0 ? filteredData : data;
     
-    const allCertificates = dataToPrint
+    // Records without a matching template are left out, as with downloads
+    let jobs: CertificateJob[];
+    try {
+      ({ jobs } = await prepareRecords(dataToPrint));
+    } catch (error) {
+      printWindow.close();
+      console.error("Error loading templates:", error);
+      alert(`Error loading template: ${getErrorMessage(error)}`);
+      return;
+    }
+
+    const allCertificates = jobs
       .map(
-        (record, idx) =>
-          `<div style="page-break-after:${idx < dataToPrint.length - 1 ? "always" : "auto"};">${mergeCertificate(docxHtml, record)}</div>`,
+        ({ record, loaded }, idx) =>
+          `<div style="page-break-after:${idx < jobs.length - 1 ? "always" : "auto"};">${mergeCertificate(loaded, record)}</div>`,
       )
       .join("");
     printWindow.document.write(`
@@ -1929,6 +7990,64 @@ const CertificateGenerator: React.FC = () => {
 
   const isReady = uploadStatus.docx && uploadStatus.excel;
 
+  const previewRecord = isFiltered && filteredData.length > 0
+    ? filteredData[filteredIndex]
+    : data[currentIndex];
+  // The record on screen may name another template than the selected one
+  const previewTemplateValue = previewRecord ? getRecordTemplateValue(previewRecord) : "";
+  const previewRecordTemplate = previewRecord ? findRecordTemplate(previewRecord) : undefined;
+  const previewTemplateUnknown = !!previewTemplateValue && !previewRecordTemplate;
+  const previewLoaded = previewTemplateUnknown ? null : getLoadedTemplate(previewRecordTemplate);
+  const previewLoadError = previewRecordTemplate && templateLoadErrors[previewRecordTemplate.id];
+  const previewCertNumber = peekNextCertificateNumber(previewLoaded?.template?.id || "");
+
+  // Reads the record's template when it isn't loaded yet and keeps it for later records;
+  // the selected template is loaded by openTemplate
+  useEffect(() => {
+    if (!previewRecordTemplate || previewLoaded || previewRecordTemplate.id === selectedTemplateId) return;
+    loadTemplateFile(previewRecordTemplate)
+      .then(loaded => setLoadedTemplates(prev => ({ ...prev, [previewRecordTemplate.id]: loaded })))
+      .catch(error => {
+        console.error(`Error loading template ${previewRecordTemplate.name}:`, error);
+        setTemplateLoadErrors(prev => ({ ...prev, [previewRecordTemplate.id]: getErrorMessage(error) }));
+      });
+  }, [previewRecordTemplate, previewLoaded, selectedTemplateId]);
+
+  // The file generateDocx would produce for the record on screen, with the next
+  // certificate number peeked rather than consumed. PowerPoint files get the basic
+  // slide preview of the merged slides
+  const exactPreview = useMemo((): { file?: ArrayBuffer; html?: string; error?: string } | null => {
+    if (previewMode !== "exact" || !previewLoaded || !previewRecord) return null;
+    try {
+      const { zip } = renderCertificate(
+        {
+          binary: previewLoaded.binary,
+          template: previewLoaded.template,
+          delimiters: previewLoaded.delimiters,
+          placeholders: previewLoaded.placeholders,
+          assets,
+          columnTypes,
+        },
+        previewRecord,
+        () => previewCertNumber,
+      );
+      const file = zip.generate({ type: "arraybuffer" });
+      return previewLoaded.type === "pptx" ? { html: pptxToHtml(file) } : { file };
+    } catch (error) {
+      console.warn("⚠️ Exact preview unavailable:", error);
+      return { error: getErrorMessage(error) };
+    }
+  }, [previewMode, previewLoaded, previewRecord, assets, previewCertNumber, columnTypes]);
+
+  const stepZoom = (direction: 1 | -1) => {
+    const current = previewFit ? 100 : previewZoom;
+    const next = direction > 0
+      ? PREVIEW_ZOOM_LEVELS.find(level => level > current)
+      : [...PREVIEW_ZOOM_LEVELS].reverse().find(level => level < current);
+    setPreviewZoom(next ?? current);
+    setPreviewFit(false);
+  };
+
   return (
     <div className="flex h-screen overflow-hidden bg-gradient-to-br from-purple-50 to-blue-100">
       {/* Sidebar */}
@@ -1984,11 +8103,11 @@ const CertificateGenerator: React.FC = () => {
 
             {/* Search Bar - Only show when expanded */}
             {!sidebarCollapsed && expandedSections.templates && (
-              <div className="mb-4 relative">
+              <div className="mb-3 relative">
                 <Search className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
                 <input
                   type="text"
-                  placeholder="Search templates..."
+                  placeholder="Search name, category or tag..."
                   value={templateSearch}
                   onChange={(e) => setTemplateSearch(e.target.value)}
                   className="w-full pl-9 pr-4 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
@@ -2004,25 +8123,76 @@ const CertificateGenerator: React.FC = () => {
               </div>
             )}
 
+            {/* Sort and Filter Chips */}
+            {!sidebarCollapsed && expandedSections.templates && savedTemplates.length > 0 && (
+              <div className="mb-4 space-y-2">
+                <select
+                  value={templateSort}
+                  onChange={(e) => setTemplateSort(e.target.value as TemplateSort)}
+                  className="w-full border border-gray-200 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  <option value="lastUsed">Sort: Last used</option>
+                  <option value="created">Sort: Recently created</option>
+                  <option value="name">Sort: Name</option>
+                </select>
+                <div className="flex flex-wrap gap-1">
+                  <button
+                    onClick={() => setShowFavoritesOnly(!showFavoritesOnly)}
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition ${
+                      showFavoritesOnly
+                        ? 'bg-yellow-100 border-yellow-400 text-yellow-800'
+                        : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    <Star className="w-3 h-3" /> Favourites
+                  </button>
+                  {templateCategories.map(category => (
+                    <button
+                      key={`cat:${category}`}
+                      onClick={() => setTemplateCategoryFilter(templateCategoryFilter === category ? "" : category)}
+                      className={`px-2 py-0.5 rounded-full text-xs border transition ${
+                        templateCategoryFilter === category
+                          ? 'bg-purple-600 border-purple-600 text-white'
+                          : 'border-purple-200 text-purple-700 hover:bg-purple-50'
+                      }`}
+                    >
+                      {category}
+                    </button>
+                  ))}
+                  {templateTags.map(tag => (
+                    <button
+                      key={`tag:${tag}`}
+                      onClick={() => setTemplateTagFilters(templateTagFilters.includes(tag)
+                        ? templateTagFilters.filter(t => t !== tag)
+                        : [...templateTagFilters, tag])}
+                      className={`px-2 py-0.5 rounded-full text-xs border transition ${
+                        templateTagFilters.includes(tag)
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'border-blue-200 text-blue-700 hover:bg-blue-50'
+                      }`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Templates List */}
             {!sidebarCollapsed && expandedSections.templates && (
               <div className="space-y-3">
                 {savedTemplates.length > 0 ? (
                   <>
                     {/* Filtered results count */}
-                    {templateSearch && (
+                    {visibleTemplates.length !== savedTemplates.length && (
                       <p className="text-xs text-gray-500 mb-2">
-                        Found {savedTemplates.filter(t => 
-                          t.name.toLowerCase().includes(templateSearch.toLowerCase())
-                        ).length} template(s)
+                        Found {visibleTemplates.length} template(s)
                       </p>
                     )}
                     
                     {/* Template Grid/List */}
                     <div className="grid grid-cols-2 gap-2">
-                      {savedTemplates
-                        .filter(t => t.name.toLowerCase().includes(templateSearch.toLowerCase()))
-                        .map((template) => (
+                      {visibleTemplates.map((template) => (
                           <div
                             key={template.id}
                             className={`group relative rounded-lg border-2 cursor-pointer transition-all hover:shadow-md ${
@@ -2039,13 +8209,25 @@ const CertificateGenerator: React.FC = () => {
                                 <div className="font-bold truncate">{template.name}</div>
                                 <div className="border-t border-gray-300 my-1"></div>
                                 {template.placeholders.slice(0, 3).map((ph, i) => (
-                                  <div key={i} className="text-gray-600 truncate">{"{" + ph + "}"}</div>
+                                  <div key={i} className="text-gray-600 truncate">{formatTag(ph, getTemplateDelimiters(template))}</div>
                                 ))}
                                 {template.placeholders.length > 3 && (
                                   <div className="text-gray-400">+{template.placeholders.length - 3}</div>
                                 )}
                               </div>
                               
+                              {/* Version history button overlay */}
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setVersionsTemplateId(template.id);
+                                }}
+                                className="absolute top-1 left-1 opacity-0 group-hover:opacity-100 bg-white text-gray-700 rounded-full p-1 hover:bg-gray-100 transition shadow-sm"
+                                title="Version history"
+                              >
+                                <History className="w-3 h-3" />
+                              </button>
+
                               {/* Delete button overlay */}
                               <button
                                 onClick={(e) => {
@@ -2056,11 +8238,92 @@ const CertificateGenerator: React.FC = () => {
                               >
                                 <Trash2 className="w-3 h-3" />
                               </button>
+
+                              {/* Favourite toggle overlay */}
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleUpdateTemplateLibrary(template.id, { favorite: !template.favorite });
+                                }}
+                                className={`absolute bottom-1 left-1 rounded-full p-1 transition shadow-sm bg-white hover:bg-gray-100 ${
+                                  template.favorite ? 'text-yellow-500' : 'text-gray-400 opacity-0 group-hover:opacity-100'
+                                }`}
+                                title={template.favorite ? "Remove from favourites" : "Add to favourites"}
+                              >
+                                <Star className={`w-3 h-3 ${template.favorite ? 'fill-yellow-400' : ''}`} />
+                              </button>
+
+                              {/* File type badge */}
+                              {template.type === "pptx" && (
+                                <span className="absolute bottom-1 right-1 flex items-center gap-0.5 bg-orange-100 text-orange-700 rounded px-1 text-[9px] font-semibold">
+                                  <Presentation className="w-2.5 h-2.5" /> PPTX
+                                </span>
+                              )}
                             </div>
                             
                             {/* Template Name */}
-                            <div className="p-2 text-xs font-medium text-gray-700 truncate bg-white rounded-b-lg border-t">
-                              {template.name}
+                            <div className="p-2 text-xs font-medium text-gray-700 bg-white rounded-b-lg border-t relative">
+                              <div className="flex items-center gap-1">
+                                <span className="truncate flex-1">
+                                  {template.name}
+                                  {getTemplateVersions(template).length > 1 && (
+                                    <span className="ml-1 text-purple-600">v{getActiveVersion(template).number}</span>
+                                  )}
+                                </span>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setTemplateMenuId(templateMenuId === template.id ? null : template.id);
+                                  }}
+                                  className="p-0.5 rounded hover:bg-gray-200 text-gray-500"
+                                  title="Template options"
+                                >
+                                  <MoreVertical className="w-3 h-3" />
+                                </button>
+                              </div>
+                              {(template.category || (template.tags || []).length > 0) && (
+                                <div className="text-[10px] font-normal text-gray-500 truncate">
+                                  {[template.category, ...(template.tags || []).map(t => `#${t}`)].filter(Boolean).join(" ")}
+                                </div>
+                              )}
+
+                              {templateMenuId === template.id && (
+                                <div
+                                  className="absolute right-0 top-full mt-1 bg-white shadow-xl rounded-lg border py-1 z-50 min-w-[150px]"
+                                  onClick={(e) => e.stopPropagation()}
+                                >
+                                  <button
+                                    onClick={() => { setDetailsTemplateId(template.id); setTemplateMenuId(null); }}
+                                    className="w-full px-3 py-1.5 text-left hover:bg-gray-50 flex items-center gap-2 text-xs"
+                                  >
+                                    <Edit2 className="w-3 h-3" /> Rename / Tags
+                                  </button>
+                                  <button
+                                    onClick={() => { setMappingTemplateId(template.id); setTemplateMenuId(null); }}
+                                    className="w-full px-3 py-1.5 text-left hover:bg-gray-50 flex items-center gap-2 text-xs"
+                                  >
+                                    <Link2 className="w-3 h-3" /> Column Mapping
+                                  </button>
+                                  <button
+                                    onClick={() => { handleDuplicateTemplate(template); setTemplateMenuId(null); }}
+                                    className="w-full px-3 py-1.5 text-left hover:bg-gray-50 flex items-center gap-2 text-xs"
+                                  >
+                                    <Copy className="w-3 h-3" /> Duplicate
+                                  </button>
+                                  <button
+                                    onClick={() => { setVersionsTemplateId(template.id); setTemplateMenuId(null); }}
+                                    className="w-full px-3 py-1.5 text-left hover:bg-gray-50 flex items-center gap-2 text-xs"
+                                  >
+                                    <History className="w-3 h-3" /> Version History
+                                  </button>
+                                  <button
+                                    onClick={() => { handleExportTemplatePack(template); setTemplateMenuId(null); }}
+                                    className="w-full px-3 py-1.5 text-left hover:bg-gray-50 flex items-center gap-2 text-xs"
+                                  >
+                                    <Download className="w-3 h-3" /> Export Pack
+                                  </button>
+                                </div>
+                              )}
                             </div>
                           </div>
                         ))}
@@ -2073,10 +8336,22 @@ const CertificateGenerator: React.FC = () => {
                       <input
                         type="file"
                         className="hidden"
-                        accept=".docx"
+                        accept={TEMPLATE_FILE_ACCEPT}
                         onChange={handleDocxUpload}
                       />
                     </label>
+
+                    {/* Import template pack */}
+                    <label className="flex items-center justify-center gap-2 border border-gray-200 rounded-lg p-2 cursor-pointer hover:border-purple-500 hover:bg-purple-50 transition text-xs text-gray-600">
+                      <PackageOpen className="w-4 h-4" />
+                      Import Template Pack
+                      <input
+                        type="file"
+                        className="hidden"
+                        accept=".certpack,.zip"
+                        onChange={handleTemplatePackUpload}
+                      />
+                    </label>
                   </>
                 ) : (
                   <div className="text-center py-8">
@@ -2090,10 +8365,20 @@ const CertificateGenerator: React.FC = () => {
                       <input
                         type="file"
                         className="hidden"
-                        accept=".docx"
+                        accept={TEMPLATE_FILE_ACCEPT}
                         onChange={handleDocxUpload}
                       />
                     </label>
+                    <label className="mt-2 flex items-center justify-center gap-2 text-xs text-gray-600 cursor-pointer hover:text-purple-600">
+                      <PackageOpen className="w-4 h-4" />
+                      or import a template pack
+                      <input
+                        type="file"
+                        className="hidden"
+                        accept=".certpack,.zip"
+                        onChange={handleTemplatePackUpload}
+                      />
+                    </label>
                   </div>
                 )}
               </div>
@@ -2102,7 +8387,7 @@ const CertificateGenerator: React.FC = () => {
             {/* Collapsed View - Icons only */}
             {sidebarCollapsed && (
               <div className="space-y-3 mt-4">
-                {savedTemplates.slice(0, 3).map((template) => (
+                {visibleTemplates.slice(0, 3).map((template) => (
                   <div
                     key={template.id}
                     className={`relative rounded-lg cursor-pointer ${
@@ -2112,7 +8397,9 @@ const CertificateGenerator: React.FC = () => {
                     title={template.name}
                   >
                     <div className="aspect-square bg-gradient-to-br from-gray-50 to-gray-100 rounded-lg p-1">
-                      <FileText className="w-full h-full text-gray-600 p-1" />
+                      {template.type === "pptx"
+                        ? <Presentation className="w-full h-full text-orange-600 p-1" />
+                        : <FileText className="w-full h-full text-gray-600 p-1" />}
                     </div>
                   </div>
                 ))}
@@ -2121,7 +8408,7 @@ const CertificateGenerator: React.FC = () => {
                   <input
                     type="file"
                     className="hidden"
-                    accept=".docx"
+                    accept={TEMPLATE_FILE_ACCEPT}
                     onChange={handleDocxUpload}
                   />
                 </label>
@@ -2152,18 +8439,52 @@ const CertificateGenerator: React.FC = () => {
                   <div className={`w-2 h-2 rounded-full ${uploadStatus.docx ? 'bg-green-500' : 'bg-gray-300'}`} />
                   <FileText className="w-4 h-4 text-gray-600" />
                   <span className="text-sm flex-1">Template</span>
-                  {uploadStatus.docx && <Check className="w-4 h-4 text-green-500" />}
+                  {uploadStatus.docx && templateErrors.length > 0 && (
+                    <span
+                      className="flex items-center gap-1 text-xs text-red-600"
+                      title={templateErrors.map(e => e.explanation).join("\n")}
+                    >
+                      <AlertCircle className="w-4 h-4" /> {templateErrors.length}
+                    </span>
+                  )}
+                  {uploadStatus.docx && templateErrors.length === 0 && <Check className="w-4 h-4 text-green-500" />}
                 </div>
                 <div className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg">
                   <div className={`w-2 h-2 rounded-full ${uploadStatus.excel ? 'bg-green-500' : 'bg-gray-300'}`} />
                   <FileSpreadsheet className="w-4 h-4 text-gray-600" />
-                  <span className="text-sm flex-1">Data</span>
+                  <span className="text-sm flex-1 truncate" title={sheetNames.length > 0 ? `${originalFileName}: ${sheetNames.join(", ")}` : originalFileName}>
+                    Data
+                    {sheetNames.length > 0 && (
+                      <span className="text-xs text-gray-500 ml-1">
+                        ({sheetNames.length > 1 ? `${sheetNames.length} sheets` : sheetNames[0]})
+                      </span>
+                    )}
+                  </span>
                   {uploadStatus.excel && (
                     <>
                       <span className="text-xs text-gray-500">{data.length} rows</span>
                       <Check className="w-4 h-4 text-green-500" />
                     </>
                   )}
+                  <label className="cursor-pointer text-gray-500 hover:text-purple-600" title="Upload data (Excel, ODS, CSV, TSV or JSON)">
+                    <Upload className="w-4 h-4" />
+                    <input
+                      ref={excelInputRef}
+                      type="file"
+                      className="hidden"
+                      accept={DATA_FILE_ACCEPT}
+                      onChange={handleExcelUpload}
+                    />
+                  </label>
+                  {uploadStatus.excel && (
+                    <button
+                      onClick={handleDeleteExcel}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove data"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
             )}
@@ -2192,16 +8513,112 @@ const CertificateGenerator: React.FC = () => {
 
               {!sidebarCollapsed && expandedSections.placeholders && (
                 <div className="mt-3 space-y-1 max-h-40 overflow-y-auto">
-                  {placeholders.map((ph) => (
-                    <div key={ph} className="flex items-center gap-2 p-1.5 bg-blue-50 rounded text-xs">
-                      <code className="text-blue-700 flex-1">{`{${ph}}`}</code>
+                  {placeholderDetails.map((ph) => (
+                    <div
+                      key={`${ph.kind}:${ph.prefix || ""}${ph.name}`}
+                      className="flex items-center gap-2 p-1.5 bg-blue-50 rounded text-xs"
+                      title={`Found in ${ph.parts.join(", ")}`}
+                    >
+                      <code className="text-blue-700 flex-1 truncate">
+                        {formatTag(
+                          ph.kind === "simple" ? ph.name
+                            : ph.kind === "image" ? `%${ph.name}`
+                            : ph.kind === "qr" ? `QR:${ph.name}`
+                            : ph.kind === "barcode" ? `${ph.prefix || "BARCODE:"}${ph.name}`
+                            : `#${ph.name}`,
+                          templateDelimiters,
+                        )}
+                      </code>
+                      {ph.kind !== "simple" && (
+                        <span className={`px-1.5 py-0.5 rounded ${
+                          ph.kind === "loop" ? 'bg-amber-100 text-amber-700'
+                            : ph.kind === "image" ? 'bg-pink-100 text-pink-700'
+                            : ph.kind === "qr" || ph.kind === "barcode" ? 'bg-indigo-100 text-indigo-700'
+                            : 'bg-teal-100 text-teal-700'
+                        }`}>
+                          {ph.kind}
+                        </span>
+                      )}
+                      {ph.parts.some(part => part !== "document") && (
+                        <span className="text-gray-500">{ph.parts.join("/")}</span>
+                      )}
+                      {ph.count > 1 && <span className="text-gray-500">×{ph.count}</span>}
                     </div>
                   ))}
                 </div>
               )}
+              {!sidebarCollapsed && expandedSections.placeholders && selectedTemplateId && (
+                <button
+                  onClick={() => setMappingTemplateId(selectedTemplateId)}
+                  className="mt-2 w-full flex items-center justify-center gap-2 px-2 py-1.5 text-xs text-purple-700 bg-purple-50 rounded hover:bg-purple-100"
+                >
+                  <Link2 className="w-3 h-3" /> Map placeholders to columns
+                </button>
+              )}
             </div>
           )}
 
+          {/* Image Assets Section */}
+          <div className="mb-6 border-t pt-4">
+            <button
+              onClick={() => toggleSection('assets')}
+              className="flex items-center gap-2 text-gray-700 hover:text-purple-600 transition w-full"
+            >
+              <ImageIcon className="w-5 h-5 flex-shrink-0" />
+              {!sidebarCollapsed && (
+                <>
+                  <span className="font-semibold">Images</span>
+                  <span className="ml-auto text-xs bg-gray-200 px-2 py-0.5 rounded-full">
+                    {assets.length}
+                  </span>
+                  <ChevronDown className={`w-4 h-4 transition-transform ${
+                    expandedSections.assets ? 'rotate-180' : ''
+                  }`} />
+                </>
+              )}
+            </button>
+
+            {!sidebarCollapsed && expandedSections.assets && (
+              <div className="mt-3">
+                <p className="text-xs text-gray-500 mb-2">
+                  Use <code className="text-blue-700">{"{%column}"}</code> in a template to insert the image named by that column.
+                </p>
+                <div className="grid grid-cols-3 gap-2 max-h-48 overflow-y-auto">
+                  {[...assets].sort((a, b) => a.name.localeCompare(b.name)).map(asset => (
+                    <div key={asset.id} className="relative group" title={`${asset.name} (${asset.width}×${asset.height})`}>
+                      <div className="aspect-square bg-gray-50 border rounded flex items-center justify-center overflow-hidden">
+                        <img
+                          src={`data:${asset.mimeType};base64,${asset.data}`}
+                          alt={asset.name}
+                          className="max-w-full max-h-full object-contain"
+                        />
+                      </div>
+                      <p className="text-[10px] text-gray-600 truncate mt-0.5">{asset.name}</p>
+                      <button
+                        onClick={() => handleDeleteAsset(asset.id)}
+                        className="absolute top-1 right-1 p-0.5 bg-white rounded shadow opacity-0 group-hover:opacity-100 transition"
+                        title="Delete image"
+                      >
+                        <Trash2 className="w-3 h-3 text-red-500" />
+                      </button>
+                    </div>
+                  ))}
+                  <label className="aspect-square border-2 border-dashed border-gray-300 rounded flex flex-col items-center justify-center cursor-pointer hover:border-purple-400 hover:bg-purple-50 transition text-gray-400">
+                    <Plus className="w-4 h-4" />
+                    <span className="text-[10px]">Add</span>
+                    <input
+                      type="file"
+                      accept={IMAGE_MIME_TYPES.join(",")}
+                      multiple
+                      onChange={handleAssetUpload}
+                      className="hidden"
+                    />
+                  </label>
+                </div>
+              </div>
+            )}
+          </div>
+
           {/* Excel Columns Section */}
           {excelColumns.length > 0 && (
             <div className="mb-6 border-t pt-4">
@@ -2224,13 +8641,55 @@ const CertificateGenerator: React.FC = () => {
               </button>
 
               {!sidebarCollapsed && expandedSections.columns && (
-                <div className="mt-3 space-y-1 max-h-40 overflow-y-auto">
-                  {excelColumns.map((col) => (
-                    <div key={col} className="flex items-center gap-2 p-1.5 bg-green-50 rounded text-xs">
-                      <span className="text-green-700 flex-1">{col}</span>
-                    </div>
-                  ))}
-                </div>
+                <>
+                  <div className="mt-3 space-y-1 max-h-40 overflow-y-auto">
+                    {excelColumns.map((col) => (
+                      <div key={col} className="flex items-center gap-2 p-1.5 bg-green-50 rounded text-xs">
+                        <span className="text-green-700 flex-1 truncate" title={col}>{col}</span>
+                        {col === activeTemplateColumn && (
+                          <span className="text-purple-600" title="Chooses the template of each record">template</span>
+                        )}
+                        <select
+                          value={columnTypes[col] || "text"}
+                          onChange={(e) => handleColumnTypeChange(col, e.target.value as ColumnType)}
+                          className="px-1 py-0.5 border rounded bg-white text-xs text-gray-600"
+                          title="Column type - decides how the values are shown, filtered and printed"
+                        >
+                          {COLUMN_TYPES.map(type => (
+                            <option key={type} value={type}>{COLUMN_TYPE_LABELS[type]}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  <label className="block mt-3 text-xs text-gray-600">
+                    Choose template by column
+                    <select
+                      value={templateColumn}
+                      onChange={(e) => handleTemplateColumnChange(e.target.value)}
+                      className="mt-1 w-full px-2 py-1.5 border rounded text-xs"
+                      title="Each record uses the template whose name or tag is in this column"
+                    >
+                      <option value="">Selected template for all</option>
+                      {templateColumn && !activeTemplateColumn && (
+                        <option value={templateColumn}>{templateColumn} (not in this data)</option>
+                      )}
+                      {excelColumns.map(col => (
+                        <option key={col} value={col}>{col}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {Object.values(columnRules).some(hasColumnRule) && (
+                    <label className="flex items-center gap-2 mt-3 text-xs text-gray-600" title="Column rules are set in the Excel editor">
+                      <input
+                        type="checkbox"
+                        checked={excludeInvalid}
+                        onChange={(e) => handleExcludeInvalidChange(e.target.checked)}
+                      />
+                      Skip records breaking column rules ({rowsBreakingRules.size})
+                    </label>
+                  )}
+                </>
               )}
             </div>
           )}
@@ -2248,6 +8707,11 @@ const CertificateGenerator: React.FC = () => {
                 <h2 className="text-xl font-semibold text-gray-800 flex items-center gap-2">
                   <Eye className="w-5 h-5" />
                   Preview {isFiltered && <span className="text-sm text-orange-600">(Filtered)</span>}
+                  {activeTemplateColumn && previewLoaded?.template && (
+                    <span className="text-sm font-normal text-purple-600" title={`Chosen by the ${activeTemplateColumn} column`}>
+                      · {previewLoaded.template.name}
+                    </span>
+                  )}
                 </h2>
                 <div className="flex gap-2 items-center">
                   <button
@@ -2296,28 +8760,120 @@ const CertificateGenerator: React.FC = () => {
                 </div>
               </div>
 
-              <div className="bg-white border-4 border-gray-200 rounded-lg overflow-auto p-8 max-h-[600px]">
-                <div
-                  ref={certRef}
-                  className="certificate-preview mx-auto"
-                  dangerouslySetInnerHTML={{
-                    __html: mergeCertificate(
-                      docxHtml, 
-                      isFiltered && filteredData.length > 0 
-                        ? filteredData[filteredIndex] 
-                        : data[currentIndex]
-                    ),
-                  }}
-                />
-                {isFiltered && filteredData.length === 0 && (
-                  <div className="text-center text-red-500 py-8">
-                    No records match the selected filter
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex rounded-lg border overflow-hidden text-sm">
+                  <button
+                    onClick={() => setPreviewMode("exact")}
+                    className={`px-3 py-1.5 ${previewMode === "exact" ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                    title="Render the file exactly as it will be downloaded"
+                  >
+                    Exact
+                  </button>
+                  <button
+                    onClick={() => setPreviewMode("quick")}
+                    className={`px-3 py-1.5 ${previewMode === "quick" ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                    title="Faster HTML approximation of the template"
+                  >
+                    Quick
+                  </button>
+                </div>
+                {exactPreview?.file && (
+                  <div className="flex items-center gap-1 text-sm">
+                    <button
+                      onClick={() => stepZoom(-1)}
+                      className="p-1.5 rounded hover:bg-gray-100 text-gray-600"
+                      title="Zoom out"
+                    >
+                      <ZoomOut className="w-4 h-4" />
+                    </button>
+                    <select
+                      value={previewFit ? "fit" : String(previewZoom)}
+                      onChange={(e) => {
+                        if (e.target.value === "fit") {
+                          setPreviewFit(true);
+                        } else {
+                          setPreviewZoom(Number(e.target.value));
+                          setPreviewFit(false);
+                        }
+                      }}
+                      className="px-2 py-1 border rounded"
+                    >
+                      <option value="fit">Fit page</option>
+                      {PREVIEW_ZOOM_LEVELS.map(level => (
+                        <option key={level} value={level}>{level}%</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => stepZoom(1)}
+                      className="p-1.5 rounded hover:bg-gray-100 text-gray-600"
+                      title="Zoom in"
+                    >
+                      <ZoomIn className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setPreviewFit(true)}
+                      className={`p-1.5 rounded ${previewFit ? 'bg-purple-100 text-purple-700' : 'hover:bg-gray-100 text-gray-600'}`}
+                      title="Fit page"
+                    >
+                      <Maximize className="w-4 h-4" />
+                    </button>
                   </div>
                 )}
               </div>
 
+              {!previewLoaded ? (
+                <div className="bg-white border-4 border-gray-200 rounded-lg p-8 text-center text-sm">
+                  {previewTemplateUnknown ? (
+                    <p className="text-orange-700">
+                      "{previewTemplateValue}" in the {activeTemplateColumn} column matches no template name or tag - this record will be skipped when generating.
+                    </p>
+                  ) : previewLoadError ? (
+                    <p className="text-red-600">Could not load the template: {previewLoadError}</p>
+                  ) : (
+                    <p className="text-gray-500">Loading template…</p>
+                  )}
+                </div>
+              ) : exactPreview?.file ? (
+                <DocxPreview
+                  file={exactPreview.file}
+                  zoom={previewZoom}
+                  fitToPage={previewFit}
+                  contentRef={certRef}
+                />
+              ) : (
+                <div className="bg-white border-4 border-gray-200 rounded-lg overflow-auto p-8 max-h-[600px]">
+                  {exactPreview?.error && (
+                    <div className="mb-4 p-2 bg-amber-50 text-amber-800 text-sm rounded">
+                      The exact preview is unavailable ({exactPreview.error}) - showing the quick preview instead.
+                    </div>
+                  )}
+                  <div
+                    ref={certRef}
+                    className="certificate-preview mx-auto"
+                    dangerouslySetInnerHTML={{
+                      __html: exactPreview?.html ?? mergeCertificate(previewLoaded, previewRecord),
+                    }}
+                  />
+                </div>
+              )}
+              {isFiltered && filteredData.length === 0 && (
+                <div className="text-center text-red-500 py-4">
+                  No records match the selected filter
+                </div>
+              )}
+
               <div className="mt-6 space-y-4">
                 <div className="flex justify-end gap-3 mb-4">
+                  <button
+                    onClick={handleValidate}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-white ${
+                      templateErrors.length > 0 ? 'bg-red-600 hover:bg-red-700' : 'bg-teal-600 hover:bg-teal-700'
+                    }`}
+                    title="Check template and data before generating"
+                  >
+                    <ShieldCheck className="w-4 h-4" />
+                    Validate
+                  </button>
                   <button
                     onClick={handleViewCounters}
                     className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 text-sm"
@@ -2411,13 +8967,13 @@ const CertificateGenerator: React.FC = () => {
                 <li className="flex gap-3">
                   <span className="font-bold text-purple-600">1.</span>
                   <span>
-                    Upload a DOCX template using the <strong>"+" button</strong> in the sidebar
+                    Upload a DOCX or PPTX template using the <strong>"+" button</strong> in the sidebar
                   </span>
                 </li>
                 <li className="flex gap-3">
                   <span className="font-bold text-purple-600">2.</span>
                   <span>
-                    Upload an Excel file with your data using the <strong>Upload Excel Data</strong> button above
+                    Upload your data (Excel, ODS, CSV, TSV or JSON) using the <strong>upload button</strong> next to Data in the sidebar's Status section
                   </span>
                 </li>
                 <li className="flex gap-3">
@@ -2443,6 +8999,27 @@ const CertificateGenerator: React.FC = () => {
               className="w-full px-4 py-2 border rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-purple-500"
               autoFocus
             />
+            <label className="block text-sm font-medium text-gray-700 mb-1">Placeholder style</label>
+            <div className="mb-1">
+              <DelimiterPicker value={templateDelimiters} onChange={handleUploadDelimitersChange} />
+            </div>
+            <p className="text-xs text-gray-500 mb-4">
+              {placeholderDetails.length} placeholder(s) found with this style
+            </p>
+            {savedTemplates.some(t => t.name.toLowerCase() === templateName.trim().toLowerCase()) && (
+              <>
+                <p className="text-sm text-purple-700 bg-purple-50 rounded-lg p-2 mb-3">
+                  A template with this name exists. This upload will be saved as a new version.
+                </p>
+                <input
+                  type="text"
+                  value={versionNote}
+                  onChange={(e) => setVersionNote(e.target.value)}
+                  placeholder="Version note (optional)"
+                  className="w-full px-4 py-2 border rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+              </>
+            )}
             <div className="flex gap-3">
               <button
                 onClick={handleSaveTemplate}
@@ -2563,6 +9140,11 @@ const CertificateGenerator: React.FC = () => {
                                 {col}
                               </option>
                             ))}
+                            {computedFieldNames.map((name) => (
+                              <option key={`computed:${name}`} value={name}>
+                                {name} (computed)
+                              </option>
+                            ))}
                           </select>
                         </div>
                         
@@ -2584,7 +9166,7 @@ const CertificateGenerator: React.FC = () => {
                                 <ul className="absolute z-10 w-full mt-1 bg-white border rounded-lg shadow-lg max-h-40 overflow-auto">
                                   {Array.from(new Set(
                                     data
-                                      .map(row => row[condition.column]?.toString() || '')
+                                      .map(row => getFieldValue(row, condition.column))
                                       .filter(v => v.toLowerCase().includes(condition.value.toLowerCase()))
                                   )).slice(0, 10)
                                     .map((v) => (
@@ -2666,7 +9248,7 @@ const CertificateGenerator: React.FC = () => {
                             <tr key={idx} className="border-t">
                               {excelColumns.slice(0, 4).map(col => (
                                 <td key={col} className="px-2 py-1 truncate max-w-[100px]">
-                                  {record[col]?.toString() || '-'}
+                                  {getFieldValue(record, col) || '-'}
                                 </td>
                               ))}
                               {excelColumns.length > 4 && (
@@ -2746,18 +9328,104 @@ const CertificateGenerator: React.FC = () => {
         </div>
       )}
 
+      {/* Template Details Modal */}
+      {detailsTemplateId && savedTemplates.some(t => t.id === detailsTemplateId) && (
+        <TemplateDetailsModal
+          key={detailsTemplateId}
+          template={savedTemplates.find(t => t.id === detailsTemplateId)!}
+          categories={templateCategories}
+          columns={excelColumns}
+          onClose={() => setDetailsTemplateId(null)}
+          onSave={(changes) => handleSaveTemplateDetails(detailsTemplateId, changes)}
+        />
+      )}
+
+      {/* Column Mapping Modal */}
+      {mappingTemplate && (
+        <ColumnMappingModal
+          key={mappingTemplate.id}
+          template={mappingTemplate}
+          placeholders={getMappablePlaceholders(
+            mappingTemplate.id === selectedTemplateId ? placeholderDetails : mappingTemplate.placeholderDetails || [],
+            mappingTemplate,
+            excelColumns,
+          )}
+          columns={excelColumns}
+          onClose={() => setMappingTemplateId(null)}
+          onSave={(mappings) => {
+            console.log("🔗 Column mappings saved:", mappings);
+            handleUpdateTemplateLibrary(mappingTemplate.id, { columnMappings: mappings });
+            setMappingTemplateId(null);
+          }}
+        />
+      )}
+
+      {/* Validation Report Modal */}
+      {validationPrompt && (
+        <ValidationReportModal
+          reports={validationPrompt.reports}
+          unknownTemplates={validationPrompt.unknownTemplates}
+          invalidRows={validationPrompt.invalidRows}
+          excludeInvalid={excludeInvalid}
+          onProceed={validationPrompt.onProceed}
+          onClose={() => setValidationPrompt(null)}
+        />
+      )}
+
+      {/* Data Import Modal */}
+      {pendingImport && (
+        <DataImportModal
+          fileName={pendingImport.fileName}
+          source={pendingImport.source}
+          locale={datasetLocale}
+          onImport={handleImportData}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+
+      {/* Template Pack Import Modal */}
+      {pendingPack && (
+        <TemplatePackImportModal
+          pack={pendingPack}
+          existing={savedTemplates.find(t => t.id === pendingPack.template.id)}
+          onImport={handleImportTemplatePack}
+          onClose={() => setPendingPack(null)}
+        />
+      )}
+
+      {/* Version History Modal */}
+      <TemplateVersionsModal
+        key={versionsTemplateId || "none"}
+        template={savedTemplates.find(t => t.id === versionsTemplateId) || null}
+        onClose={() => setVersionsTemplateId(null)}
+        onActivate={(versionId) => {
+          if (versionsTemplateId) handleActivateVersion(versionsTemplateId, versionId);
+        }}
+      />
+
       {/* Excel Editor Modal */}
       <ExcelEditorModal
         isOpen={showExcelEditor}
         onClose={() => setShowExcelEditor(false)}
         data={editableData}
         columns={excelColumns}
+        columnTypes={columnTypes}
+        columnRules={columnRules}
+        excludeInvalid={excludeInvalid}
+        onExcludeInvalidChange={handleExcludeInvalidChange}
+        locale={datasetLocale}
         fileName={originalFileName}
-        onSave={(newData, newColumns) => {
+        hasWriteAccess={excelFileHandle !== null}
+        onRequestWriteAccess={handleRequestWritePermission}
+        onSave={(newData, newColumns, newTypes, newRules, toFile) => {
           setData(newData);
           setEditableData(newData);
           setExcelColumns(newColumns);
-          saveExcelData(newData, newColumns);
+          setColumnTypes(newTypes);
+          setColumnRules(newRules);
+          saveExcelData(newData, newColumns, sheetNames, newTypes);
+          updateDatasetSettings({ columnRules: newRules });
+          if (toFile) handleSaveExcelChanges(newData, newColumns, newTypes);
         }}
       />
 